@@ -0,0 +1,41 @@
+// Seeds the roster with the members that used to be hardcoded in the API route.
+// Run with `npx prisma db seed`; existing members are left untouched.
+import { PrismaClient } from '@prisma/client'
+
+const prisma = new PrismaClient()
+
+const usernames = [
+  "Kho_ja",
+  "jdu211171",
+  "Ismoilova1031",
+  "edSJVRbEh6",
+  "pardayevotabek30gmailcom",
+  "ayunusov238",
+  "Fazliddin_001",
+  "Amrullayev",
+  "abdufattohcoder2004",
+  "MrPyDeveloper",
+  "javohir07",
+  "otajonovmuhammadali",
+  "agadev",
+  "muza_Sano",
+  "yamamoto05",
+  "Ibroximov_Diyorbek",
+  "Daydi",
+]
+
+async function main() {
+  const { count } = await prisma.trackedUser.createMany({
+    data: usernames.map(username => ({ username })),
+    skipDuplicates: true,
+  })
+
+  console.log(`Seeded ${count} tracked users`)
+}
+
+main()
+  .catch((error) => {
+    console.error(error)
+    process.exitCode = 1
+  })
+  .finally(() => prisma.$disconnect())
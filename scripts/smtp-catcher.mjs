@@ -0,0 +1,69 @@
+// A local stand-in for an SMTP server that prints every message it receives.
+// Run with `npm run smtp-catcher` and set SMTP_URL=smtp://localhost:2525.
+//
+//   PORT=2525    port to listen on
+import { createServer } from 'node:net'
+
+const port = Number(process.env.PORT || 2525)
+let received = 0
+
+const server = createServer(socket => {
+  let buffer = ''
+  let inData = false
+  let envelope = { from: '', to: [] }
+
+  const reply = line => socket.write(`${line}\r\n`)
+  reply('220 localhost smtp-catcher')
+
+  socket.on('data', chunk => {
+    buffer += chunk.toString('utf8')
+
+    while (true) {
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n')
+        if (end === -1) return
+        const message = buffer.slice(0, end).replace(/^\.\./gm, '.')
+        buffer = buffer.slice(end + 5)
+        inData = false
+
+        received++
+        console.log(`#${received} from ${envelope.from} to ${envelope.to.join(', ')}`)
+        console.log(message)
+        console.log('-'.repeat(72))
+        envelope = { from: '', to: [] }
+        reply('250 OK: message queued')
+        continue
+      }
+
+      const newline = buffer.indexOf('\r\n')
+      if (newline === -1) return
+      const line = buffer.slice(0, newline)
+      buffer = buffer.slice(newline + 2)
+      const command = line.slice(0, 4).toUpperCase()
+
+      if (command === 'EHLO' || command === 'HELO') {
+        reply('250 localhost')
+      } else if (command === 'MAIL') {
+        envelope.from = line.slice(10).trim()
+        reply('250 OK')
+      } else if (command === 'RCPT') {
+        envelope.to.push(line.slice(8).trim())
+        reply('250 OK')
+      } else if (command === 'DATA') {
+        inData = true
+        reply('354 End data with <CR><LF>.<CR><LF>')
+      } else if (command === 'RSET' || command === 'NOOP') {
+        reply('250 OK')
+      } else if (command === 'QUIT') {
+        reply('221 Bye')
+        socket.end()
+      } else {
+        reply('502 Command not implemented')
+      }
+    }
+  })
+})
+
+server.listen(port, () => {
+  console.log(`SMTP catcher listening on smtp://localhost:${port}`)
+})
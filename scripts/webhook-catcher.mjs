@@ -0,0 +1,34 @@
+// A local stand-in for Slack/Discord webhooks that prints every request it receives.
+// Run with `npm run webhook-catcher`, then add http://localhost:4010/ as an endpoint.
+//
+//   PORT=4010        port to listen on
+//   FAIL_FIRST=2     answer the first N requests with 500, to watch retries
+import { createServer } from 'node:http'
+
+const port = Number(process.env.PORT || 4010)
+let failuresLeft = Number(process.env.FAIL_FIRST || 0)
+let received = 0
+
+const server = createServer((request, response) => {
+  let body = ''
+  request.on('data', chunk => { body += chunk })
+  request.on('end', () => {
+    received++
+    const failing = failuresLeft > 0
+    if (failing) failuresLeft--
+
+    console.log(`#${received} ${request.method} ${request.url} -> ${failing ? 500 : 200}`)
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2))
+    } catch {
+      console.log(body)
+    }
+
+    response.writeHead(failing ? 500 : 200, { 'Content-Type': 'text/plain' })
+    response.end(failing ? 'simulated failure' : 'ok')
+  })
+})
+
+server.listen(port, () => {
+  console.log(`Webhook catcher listening on http://localhost:${port}/`)
+})
@@ -0,0 +1,286 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { AlertCircle, Loader2 } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { AdminSecretForm } from "@/components/admin-secret-form";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { useAdminSecret } from "@/hooks/use-admin-secret";
+
+type Challenge = {
+  id: number;
+  title: string;
+  startsAt: string;
+  endsAt: string;
+  problemSlugs: string[];
+};
+
+type Draft = {
+  title: string;
+  startsAt: string; // datetime-local value
+  endsAt: string;
+  problems: string; // slugs or URLs, separated by commas, spaces or new lines
+};
+
+const EMPTY_DRAFT: Draft = { title: "", startsAt: "", endsAt: "", problems: "" };
+
+// datetime-local inputs work in local time without a zone
+function toLocalInput(iso: string) {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+    .toISOString()
+    .slice(0, 16);
+}
+
+function toDraft(challenge: Challenge): Draft {
+  return {
+    title: challenge.title,
+    startsAt: toLocalInput(challenge.startsAt),
+    endsAt: toLocalInput(challenge.endsAt),
+    problems: challenge.problemSlugs.join("\n"),
+  };
+}
+
+function toBody(draft: Draft) {
+  return {
+    title: draft.title,
+    startsAt: draft.startsAt && new Date(draft.startsAt).toISOString(),
+    endsAt: draft.endsAt && new Date(draft.endsAt).toISOString(),
+    problemSlugs: draft.problems.split(/[\s,]+/).filter(Boolean),
+  };
+}
+
+function statusOf(challenge: Challenge) {
+  const now = new Date().toISOString();
+  if (challenge.endsAt < now) return "Ended";
+  if (challenge.startsAt > now) return "Upcoming";
+  return "Running";
+}
+
+function ChallengeForm({
+  initial,
+  busy,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: {
+  initial: Draft;
+  busy: boolean;
+  submitLabel: string;
+  onSubmit: (draft: Draft) => void;
+  onCancel?: () => void;
+}) {
+  // Remount (via key) to start over from a new initial draft
+  const [draft, setDraft] = useState(initial);
+
+  return (
+    <form
+      className="grid gap-4"
+      onSubmit={(event) => {
+        event.preventDefault();
+        onSubmit(draft);
+      }}
+    >
+      <label className="grid gap-1 text-sm">
+        Title
+        <Input
+          value={draft.title}
+          placeholder="Week 12: Graphs"
+          onChange={(event) => setDraft({ ...draft, title: event.target.value })}
+        />
+      </label>
+      <div className="grid gap-4 md:grid-cols-2">
+        <label className="grid gap-1 text-sm">
+          Starts
+          <Input
+            type="datetime-local"
+            value={draft.startsAt}
+            onChange={(event) => setDraft({ ...draft, startsAt: event.target.value })}
+          />
+        </label>
+        <label className="grid gap-1 text-sm">
+          Ends
+          <Input
+            type="datetime-local"
+            value={draft.endsAt}
+            onChange={(event) => setDraft({ ...draft, endsAt: event.target.value })}
+          />
+        </label>
+      </div>
+      <label className="grid gap-1 text-sm">
+        Problems
+        <textarea
+          className="min-h-24 rounded-md border border-input bg-transparent px-3 py-2 font-mono text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+          value={draft.problems}
+          placeholder={"two-sum\nhttps://leetcode.com/problems/number-of-islands/"}
+          onChange={(event) => setDraft({ ...draft, problems: event.target.value })}
+        />
+        <span className="text-xs text-muted-foreground">
+          Slugs or problem links, one per line
+        </span>
+      </label>
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" disabled={busy}>
+          {submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+export default function ChallengesPage() {
+  const { secret, setSecret, adminFetch } = useAdminSecret();
+  const [challenges, setChallenges] = useState<Challenge[]>([]);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [formKey, setFormKey] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = useCallback(
+    async (url: string, init?: RequestInit) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await adminFetch(url, init);
+        if (response.status === 401) {
+          setSecret(null);
+          return false;
+        }
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load challenges");
+        }
+        if (data.challenges) setChallenges(data.challenges);
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "An error occurred");
+        return false;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [adminFetch, setSecret]
+  );
+
+  const save = async (url: string, method: string, draft: Draft) => {
+    const saved = await request(url, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(toBody(draft)),
+    });
+    if (saved) {
+      setEditingId(null);
+      setFormKey((key) => key + 1);
+      await request("/api/admin/challenges");
+    }
+  };
+
+  useEffect(() => {
+    if (secret) request("/api/admin/challenges");
+  }, [secret, request]);
+
+  if (!secret) {
+    return (
+      <div className="flex min-h-screen items-center justify-center p-8">
+        <AdminSecretForm onSubmit={setSecret} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-muted">
+      <div className="mx-auto max-w-7xl space-y-8 p-8">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold">Challenges</h1>
+          <div className="flex items-center gap-2">
+            {loading && <Loader2 className="h-5 w-5 animate-spin" />}
+            <ThemeToggle />
+          </div>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Could not save the challenge</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm font-medium">New challenge</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChallengeForm
+              key={formKey}
+              initial={EMPTY_DRAFT}
+              busy={loading}
+              submitLabel="Create"
+              onSubmit={(draft) => save("/api/admin/challenges", "POST", draft)}
+            />
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-4">
+          {challenges.map((challenge) => (
+            <Card key={challenge.id}>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">
+                  {challenge.title}
+                  <Badge variant="secondary" className="ml-2">
+                    {statusOf(challenge)}
+                  </Badge>
+                </CardTitle>
+                {editingId !== challenge.id && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setEditingId(challenge.id)}
+                  >
+                    Edit
+                  </Button>
+                )}
+              </CardHeader>
+              <CardContent>
+                {editingId === challenge.id ? (
+                  <ChallengeForm
+                    initial={toDraft(challenge)}
+                    busy={loading}
+                    submitLabel="Save"
+                    onSubmit={(draft) =>
+                      save(`/api/admin/challenges/${challenge.id}`, "PATCH", draft)
+                    }
+                    onCancel={() => setEditingId(null)}
+                  />
+                ) : (
+                  <div className="grid gap-2 text-sm">
+                    <p className="text-muted-foreground">
+                      {new Date(challenge.startsAt).toLocaleString()} –{" "}
+                      {new Date(challenge.endsAt).toLocaleString()}
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                      {challenge.problemSlugs.map((slug) => (
+                        <Badge key={slug} variant="outline" className="font-mono">
+                          {slug}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,277 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { AlertCircle, Loader2, RefreshCw } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AdminSecretForm } from "@/components/admin-secret-form";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { useAdminSecret } from "@/hooks/use-admin-secret";
+
+type FetchLogEntry = {
+  id: number;
+  timestamp: string;
+  runId: string | null;
+  username: string | null;
+  success: boolean;
+  durationMs: number | null;
+  httpStatus: number | null;
+  errorClass: string | null;
+  retries: number;
+  error: string | null;
+  refreshedCount: number | null;
+  failedCount: number | null;
+  skippedCount: number | null;
+};
+
+function describeRun(log: FetchLogEntry) {
+  return `${log.refreshedCount} refreshed, ${log.failedCount} failed, ${log.skippedCount} skipped`;
+}
+
+type Filters = {
+  username: string;
+  status: "all" | "success" | "failure";
+  from: string;
+  to: string;
+};
+
+function buildQuery(filters: Filters, before?: number) {
+  const params = new URLSearchParams();
+  if (filters.username) params.set("username", filters.username);
+  if (filters.status !== "all") params.set("status", filters.status);
+  // Both days in the admin's local time, with the whole "to" day included
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+  if (before !== undefined) params.set("before", String(before));
+  return params.toString();
+}
+
+const NO_FILTERS: Filters = {
+  username: "",
+  status: "all",
+  from: "",
+  to: "",
+};
+
+export default function FetchLogsPage() {
+  const { secret, setSecret, adminFetch } = useAdminSecret();
+  // The form edits `filters`; logs are loaded with `appliedFilters`, which only changes on submit
+  const [filters, setFilters] = useState<Filters>(NO_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<Filters>(NO_FILTERS);
+  const [logs, setLogs] = useState<FetchLogEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadLogs = useCallback(
+    async (before?: number) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await adminFetch(
+          `/api/admin/fetch-logs?${buildQuery(appliedFilters, before)}`
+        );
+        if (response.status === 401) {
+          setSecret(null);
+          return;
+        }
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load fetch logs");
+        }
+        setLogs((current) => (before ? [...current, ...data.logs] : data.logs));
+        setNextCursor(data.nextCursor);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "An error occurred");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [adminFetch, appliedFilters, setSecret]
+  );
+
+  useEffect(() => {
+    if (secret) loadLogs();
+  }, [secret, loadLogs]);
+
+  if (!secret) {
+    return (
+      <div className="flex min-h-screen items-center justify-center p-8">
+        <AdminSecretForm onSubmit={setSecret} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-muted">
+      <div className="mx-auto max-w-7xl space-y-8 p-8">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold">Fetch logs</h1>
+          <ThemeToggle />
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm font-medium">Filters</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form
+              className="flex flex-wrap items-end gap-4"
+              onSubmit={(event) => {
+                event.preventDefault();
+                // A new object reloads even when the filters did not change
+                setAppliedFilters({ ...filters });
+              }}
+            >
+              <label className="grid gap-1 text-sm">
+                Username
+                <Input
+                  value={filters.username}
+                  placeholder="Any user"
+                  onChange={(event) =>
+                    setFilters({ ...filters, username: event.target.value })
+                  }
+                />
+              </label>
+              <label className="grid gap-1 text-sm">
+                Status
+                <Select
+                  value={filters.status}
+                  onValueChange={(value) =>
+                    setFilters({ ...filters, status: value as Filters["status"] })
+                  }
+                >
+                  <SelectTrigger className="w-[140px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All</SelectItem>
+                    <SelectItem value="success">Success</SelectItem>
+                    <SelectItem value="failure">Failure</SelectItem>
+                  </SelectContent>
+                </Select>
+              </label>
+              <label className="grid gap-1 text-sm">
+                From
+                <Input
+                  type="date"
+                  value={filters.from}
+                  onChange={(event) =>
+                    setFilters({ ...filters, from: event.target.value })
+                  }
+                />
+              </label>
+              <label className="grid gap-1 text-sm">
+                To
+                <Input
+                  type="date"
+                  value={filters.to}
+                  onChange={(event) =>
+                    setFilters({ ...filters, to: event.target.value })
+                  }
+                />
+              </label>
+              <Button type="submit" disabled={loading}>
+                {loading ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                )}
+                Apply
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Could not load fetch logs</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Card>
+          <CardContent className="overflow-x-auto p-0">
+            <table className="w-full text-sm">
+              <thead className="border-b text-left text-muted-foreground">
+                <tr>
+                  <th className="p-3 font-medium">Time</th>
+                  <th className="p-3 font-medium">User</th>
+                  <th className="p-3 font-medium">Status</th>
+                  <th className="p-3 font-medium">Error class</th>
+                  <th className="p-3 font-medium">HTTP</th>
+                  <th className="p-3 font-medium">Retries</th>
+                  <th className="p-3 font-medium">Duration</th>
+                  <th className="p-3 font-medium">Run</th>
+                  <th className="p-3 font-medium">Error</th>
+                </tr>
+              </thead>
+              <tbody>
+                {logs.map((log) => (
+                  <tr key={log.id} className="border-b last:border-0">
+                    <td className="whitespace-nowrap p-3">
+                      {new Date(log.timestamp).toLocaleString()}
+                    </td>
+                    <td className="p-3">
+                      {log.username ?? (log.refreshedCount !== null ? "Run summary" : "—")}
+                    </td>
+                    <td className="p-3">
+                      <Badge variant={log.success ? "secondary" : "destructive"}>
+                        {log.success ? "success" : "failure"}
+                      </Badge>
+                    </td>
+                    <td className="p-3">{log.errorClass ?? "—"}</td>
+                    <td className="p-3">{log.httpStatus ?? "—"}</td>
+                    <td className="p-3">{log.retries}</td>
+                    <td className="whitespace-nowrap p-3">
+                      {log.durationMs !== null ? `${log.durationMs} ms` : "—"}
+                    </td>
+                    <td className="p-3 font-mono text-xs">
+                      {log.runId ? log.runId.slice(0, 8) : "—"}
+                    </td>
+                    <td className="max-w-xs truncate p-3" title={log.error ?? ""}>
+                      {log.refreshedCount !== null && (
+                        <span className="mr-2 text-muted-foreground">{describeRun(log)}</span>
+                      )}
+                      {log.error ?? ""}
+                    </td>
+                  </tr>
+                ))}
+                {logs.length === 0 && !loading && (
+                  <tr>
+                    <td colSpan={9} className="p-6 text-center text-muted-foreground">
+                      No fetch records match these filters.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+
+        {nextCursor !== null && (
+          <div className="flex justify-center">
+            <Button
+              variant="outline"
+              disabled={loading}
+              onClick={() => loadLogs(nextCursor)}
+            >
+              Load more
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
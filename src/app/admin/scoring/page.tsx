@@ -0,0 +1,214 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { AlertCircle, Check, Loader2 } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { AdminSecretForm } from "@/components/admin-secret-form";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { useAdminSecret } from "@/hooks/use-admin-secret";
+import {
+  describeWeights,
+  type ScoringFormula,
+  type ScoringWeights,
+} from "@/lib/scoring";
+
+const WEIGHT_LABELS: Record<keyof ScoringWeights, string> = {
+  easy: "Easy",
+  medium: "Medium",
+  hard: "Hard",
+  streakDay: "Per streak day",
+  contest: "Per contest",
+};
+
+function PresetCard({
+  preset,
+  active,
+  busy,
+  onSave,
+  onActivate,
+}: {
+  preset: ScoringFormula;
+  active: boolean;
+  busy: boolean;
+  onSave: (changes: Partial<ScoringFormula>) => void;
+  onActivate: () => void;
+}) {
+  const [draft, setDraft] = useState(preset);
+
+  // Reset the form whenever the server copy changes
+  useEffect(() => setDraft(preset), [preset]);
+
+  const changed = (Object.keys(preset) as (keyof ScoringFormula)[]).some(
+    (key) => draft[key] !== preset[key]
+  );
+
+  return (
+    <Card className={active ? "border-primary" : undefined}>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">
+          {preset.name}
+          <span className="ml-2 font-mono text-xs text-muted-foreground">
+            {preset.id}
+          </span>
+        </CardTitle>
+        {active ? (
+          <Badge>
+            <Check className="mr-1 h-3 w-3" />
+            Active
+          </Badge>
+        ) : (
+          <Button size="sm" variant="outline" disabled={busy} onClick={onActivate}>
+            Use this formula
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        <form
+          className="grid gap-4"
+          onSubmit={(event) => {
+            event.preventDefault();
+            onSave(draft);
+          }}
+        >
+          <label className="grid gap-1 text-sm">
+            Name
+            <Input
+              value={draft.name}
+              onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+            />
+          </label>
+          <label className="grid gap-1 text-sm">
+            Description
+            <Input
+              value={draft.description}
+              onChange={(event) =>
+                setDraft({ ...draft, description: event.target.value })
+              }
+            />
+          </label>
+          <div className="grid grid-cols-2 gap-4 md:grid-cols-5">
+            {(Object.keys(WEIGHT_LABELS) as (keyof ScoringWeights)[]).map((field) => (
+              <label key={field} className="grid gap-1 text-sm">
+                {WEIGHT_LABELS[field]}
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step={1}
+                  value={draft[field]}
+                  onChange={(event) =>
+                    setDraft({ ...draft, [field]: parseInt(event.target.value) || 0 })
+                  }
+                />
+              </label>
+            ))}
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-xs text-muted-foreground">{describeWeights(draft)}</p>
+            <Button type="submit" disabled={busy || !changed}>
+              Save
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ScoringPage() {
+  const { secret, setSecret, adminFetch } = useAdminSecret();
+  const [presets, setPresets] = useState<ScoringFormula[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = useCallback(
+    async (url: string, init?: RequestInit) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await adminFetch(url, init);
+        if (response.status === 401) {
+          setSecret(null);
+          return;
+        }
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load scoring presets");
+        }
+        setPresets(data.presets);
+        setActiveId(data.activeId);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "An error occurred");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [adminFetch, setSecret]
+  );
+
+  const updatePreset = (id: string, changes: Partial<ScoringFormula> & { active?: boolean }) =>
+    request(`/api/admin/scoring/${encodeURIComponent(id)}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(changes),
+    });
+
+  useEffect(() => {
+    if (secret) request("/api/admin/scoring");
+  }, [secret, request]);
+
+  if (!secret) {
+    return (
+      <div className="flex min-h-screen items-center justify-center p-8">
+        <AdminSecretForm onSubmit={setSecret} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-muted">
+      <div className="mx-auto max-w-7xl space-y-8 p-8">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold">Scoring</h1>
+          <div className="flex items-center gap-2">
+            {loading && <Loader2 className="h-5 w-5 animate-spin" />}
+            <ThemeToggle />
+          </div>
+        </div>
+
+        <p className="text-sm text-muted-foreground">
+          The active formula decides the Points tab. Changes apply to the next
+          dashboard load.
+        </p>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Could not update scoring</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid gap-4">
+          {presets.map((preset) => (
+            <PresetCard
+              key={preset.id}
+              preset={preset}
+              active={preset.id === activeId}
+              busy={loading}
+              onSave={({ name, description, easy, medium, hard, streakDay, contest }) =>
+                updatePreset(preset.id, { name, description, easy, medium, hard, streakDay, contest })
+              }
+              onActivate={() => updatePreset(preset.id, { active: true })}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
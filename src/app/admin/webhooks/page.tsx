@@ -0,0 +1,339 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { AlertCircle, Loader2, Send, Trash2 } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AdminSecretForm } from "@/components/admin-secret-form";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { useAdminSecret } from "@/hooks/use-admin-secret";
+import {
+  NOTIFICATION_EVENT_LABELS,
+  NOTIFICATION_EVENTS,
+  WEBHOOK_FORMATS,
+  type NotificationEventType,
+  type WebhookFormat,
+} from "@/lib/notifications";
+import { cn } from "@/lib/utils";
+
+type Delivery = {
+  id: number;
+  events: string[];
+  success: boolean;
+  httpStatus: number | null;
+  attempts: number;
+  error: string | null;
+  durationMs: number;
+  createdAt: string;
+};
+
+type Endpoint = {
+  id: number;
+  name: string;
+  url: string;
+  format: WebhookFormat;
+  events: NotificationEventType[];
+  active: boolean;
+  deliveries: Delivery[];
+};
+
+const FORMAT_LABELS: Record<WebhookFormat, string> = {
+  slack: "Slack",
+  discord: "Discord",
+  json: "Plain JSON",
+};
+
+function EventFilter({
+  value,
+  onChange,
+}: {
+  value: NotificationEventType[];
+  onChange: (events: NotificationEventType[]) => void;
+}) {
+  // An empty filter means every event
+  const isOn = (event: NotificationEventType) =>
+    value.length === 0 || value.includes(event);
+
+  const toggle = (event: NotificationEventType) => {
+    const current = value.length === 0 ? [...NOTIFICATION_EVENTS] : value;
+    const next = current.includes(event)
+      ? current.filter((other) => other !== event)
+      : [...current, event];
+    onChange(next.length === NOTIFICATION_EVENTS.length ? [] : next);
+  };
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {NOTIFICATION_EVENTS.map((event) => (
+        <Button
+          key={event}
+          type="button"
+          size="sm"
+          variant={isOn(event) ? "default" : "outline"}
+          className="h-7 px-2 text-xs"
+          onClick={() => toggle(event)}
+        >
+          {NOTIFICATION_EVENT_LABELS[event]}
+        </Button>
+      ))}
+    </div>
+  );
+}
+
+export default function WebhooksPage() {
+  const { secret, setSecret, adminFetch } = useAdminSecret();
+  const [endpoints, setEndpoints] = useState<Endpoint[]>([]);
+  const [name, setName] = useState("");
+  const [url, setUrl] = useState("");
+  const [format, setFormat] = useState<WebhookFormat>("slack");
+  const [events, setEvents] = useState<NotificationEventType[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const response = await adminFetch("/api/admin/webhooks");
+    if (response.status === 401) {
+      setSecret(null);
+      return;
+    }
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to load webhooks");
+    }
+    setEndpoints(data.endpoints);
+  }, [adminFetch, setSecret]);
+
+  // Runs a change, then reloads the list so deliveries and edits show up
+  const run = useCallback(
+    async (url?: string, init?: RequestInit) => {
+      setLoading(true);
+      setError(null);
+      try {
+        if (url) {
+          const response = await adminFetch(url, init);
+          if (response.status === 401) {
+            setSecret(null);
+            return false;
+          }
+          if (!response.ok) {
+            const data = await response.json();
+            throw new Error(data.error || "Request failed");
+          }
+        }
+        await load();
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "An error occurred");
+        return false;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [adminFetch, load, setSecret]
+  );
+
+  const send = (path: string, method: string, body?: unknown) =>
+    run(path, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  const addEndpoint = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (await send("/api/admin/webhooks", "POST", { name, url, format, events })) {
+      setName("");
+      setUrl("");
+      setEvents([]);
+    }
+  };
+
+  useEffect(() => {
+    if (secret) run();
+  }, [secret, run]);
+
+  if (!secret) {
+    return (
+      <div className="flex min-h-screen items-center justify-center p-8">
+        <AdminSecretForm onSubmit={setSecret} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-muted">
+      <div className="mx-auto max-w-7xl space-y-8 p-8">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold">Webhooks</h1>
+          <div className="flex items-center gap-2">
+            {loading && <Loader2 className="h-5 w-5 animate-spin" />}
+            <ThemeToggle />
+          </div>
+        </div>
+
+        <p className="text-sm text-muted-foreground">
+          After each refresh, every active endpoint gets one message with the
+          events it subscribes to.
+        </p>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Webhook request failed</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm font-medium">New endpoint</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form className="grid gap-4" onSubmit={addEndpoint}>
+              <div className="grid gap-4 md:grid-cols-[1fr_2fr_180px]">
+                <Input
+                  placeholder="Name"
+                  value={name}
+                  onChange={(event) => setName(event.target.value)}
+                />
+                <Input
+                  placeholder="https://hooks.slack.com/services/..."
+                  value={url}
+                  onChange={(event) => setUrl(event.target.value)}
+                />
+                <Select
+                  value={format}
+                  onValueChange={(value) => setFormat(value as WebhookFormat)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEBHOOK_FORMATS.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {FORMAT_LABELS[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <EventFilter value={events} onChange={setEvents} />
+                <Button type="submit" disabled={loading}>
+                  Add endpoint
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-4">
+          {endpoints.map((endpoint) => (
+            <Card key={endpoint.id} className={cn(!endpoint.active && "opacity-60")}>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">
+                  {endpoint.name}
+                  <Badge variant="secondary" className="ml-2">
+                    {FORMAT_LABELS[endpoint.format]}
+                  </Badge>
+                  <p className="mt-1 break-all font-mono text-xs font-normal text-muted-foreground">
+                    {endpoint.url}
+                  </p>
+                </CardTitle>
+                <div className="flex items-center gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={loading}
+                    onClick={() => send(`/api/admin/webhooks/${endpoint.id}/test`, "POST")}
+                  >
+                    <Send className="mr-1 h-3 w-3" />
+                    Test
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={loading}
+                    onClick={() =>
+                      send(`/api/admin/webhooks/${endpoint.id}`, "PATCH", {
+                        active: !endpoint.active,
+                      })
+                    }
+                  >
+                    {endpoint.active ? "Pause" : "Resume"}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={loading}
+                    onClick={() => {
+                      if (confirm(`Remove ${endpoint.name} and its delivery log?`)) {
+                        send(`/api/admin/webhooks/${endpoint.id}`, "DELETE");
+                      }
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent className="grid gap-4">
+                <EventFilter
+                  value={endpoint.events}
+                  onChange={(next) =>
+                    send(`/api/admin/webhooks/${endpoint.id}`, "PATCH", { events: next })
+                  }
+                />
+                {endpoint.deliveries.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Nothing delivered yet.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead className="border-b text-left text-muted-foreground">
+                      <tr>
+                        <th className="py-2 font-medium">Time</th>
+                        <th className="py-2 font-medium">Events</th>
+                        <th className="py-2 font-medium">Result</th>
+                        <th className="py-2 font-medium">Attempts</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {endpoint.deliveries.map((delivery) => (
+                        <tr key={delivery.id} className="border-b last:border-0">
+                          <td className="py-2 whitespace-nowrap">
+                            {new Date(delivery.createdAt).toLocaleString()}
+                          </td>
+                          <td className="py-2">{delivery.events.join(", ")}</td>
+                          <td className="py-2">
+                            {delivery.success ? (
+                              <Badge variant="secondary">
+                                {delivery.httpStatus} in {delivery.durationMs} ms
+                              </Badge>
+                            ) : (
+                              <span className="text-destructive">
+                                {delivery.error ?? "Failed"}
+                              </span>
+                            )}
+                          </td>
+                          <td className="py-2">{delivery.attempts}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
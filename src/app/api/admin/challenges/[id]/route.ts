@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server"
+import { Prisma } from "@prisma/client"
+import { requireAdmin } from "@/lib/auth"
+import { findUnknownProblems, parseChallengeFields } from "@/lib/challenges"
+import { prisma } from "@/lib/prisma"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+/**
+ * Edits a challenge's title, dates or problems. Progress is recomputed from
+ * the stored solves, so editing a running challenge keeps what members have done.
+ */
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const denied = requireAdmin(request)
+  if (denied) return denied
+
+  const id = parseInt((await params).id)
+  if (isNaN(id)) {
+    return NextResponse.json({ error: "Challenge id must be a number" }, { status: 400 })
+  }
+
+  let body: Record<string, unknown>
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 })
+  }
+
+  const parsed = parseChallengeFields(body, { partial: true })
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 })
+  }
+  const data: Prisma.ChallengeUpdateInput = parsed.fields
+
+  try {
+    const existing = await prisma.challenge.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json({ error: `No challenge ${id}` }, { status: 404 })
+    }
+
+    if ((parsed.fields.endsAt ?? existing.endsAt) <= (parsed.fields.startsAt ?? existing.startsAt)) {
+      return NextResponse.json({ error: "endsAt must be after startsAt" }, { status: 400 })
+    }
+
+    if (parsed.fields.problemSlugs) {
+      const unknown = await findUnknownProblems(parsed.fields.problemSlugs)
+      if (unknown.length > 0) {
+        return NextResponse.json({ error: `Unknown problems: ${unknown.join(", ")}` }, { status: 400 })
+      }
+    }
+
+    const challenge = await prisma.challenge.update({ where: { id }, data })
+    return NextResponse.json({ challenge })
+  } catch (error) {
+    console.error(`Failed to update challenge ${id}:`, error)
+    return NextResponse.json({ error: "Failed to update challenge" }, { status: 500 })
+  }
+}
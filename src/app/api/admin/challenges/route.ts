@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/auth"
+import { findUnknownProblems, parseChallengeFields } from "@/lib/challenges"
+import { prisma } from "@/lib/prisma"
+
+/**
+ * Lists every challenge, newest first
+ */
+export async function GET(request: Request) {
+  const denied = requireAdmin(request)
+  if (denied) return denied
+
+  const challenges = await prisma.challenge.findMany({ orderBy: { startsAt: "desc" } })
+  return NextResponse.json({ challenges })
+}
+
+/**
+ * Creates a challenge from a title, a start and end date and a list of problem slugs or URLs
+ */
+export async function POST(request: Request) {
+  const denied = requireAdmin(request)
+  if (denied) return denied
+
+  let body: Record<string, unknown>
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 })
+  }
+
+  const parsed = parseChallengeFields(body, { partial: false })
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 })
+  }
+  const { title, startsAt, endsAt, problemSlugs } = parsed.fields
+
+  if (endsAt! <= startsAt!) {
+    return NextResponse.json({ error: "endsAt must be after startsAt" }, { status: 400 })
+  }
+
+  try {
+    const unknown = await findUnknownProblems(problemSlugs!)
+    if (unknown.length > 0) {
+      return NextResponse.json({ error: `Unknown problems: ${unknown.join(", ")}` }, { status: 400 })
+    }
+
+    const challenge = await prisma.challenge.create({
+      data: { title: title!, startsAt: startsAt!, endsAt: endsAt!, problemSlugs: problemSlugs! },
+    })
+
+    return NextResponse.json({ challenge }, { status: 201 })
+  } catch (error) {
+    console.error("Failed to create challenge:", error)
+    return NextResponse.json({ error: "Failed to create challenge" }, { status: 500 })
+  }
+}
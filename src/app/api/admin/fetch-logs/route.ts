@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/auth"
+import { parseFetchLogFilters, queryFetchLogs } from "@/lib/fetch-logs"
+
+/**
+ * Lists fetch records, newest first.
+ * Filters: username, status (success|failure), runId, from, to, limit, before (id cursor).
+ */
+export async function GET(request: Request) {
+  const denied = requireAdmin(request)
+  if (denied) return denied
+
+  const filters = parseFetchLogFilters(new URL(request.url).searchParams)
+  if ("error" in filters) {
+    return NextResponse.json({ error: filters.error }, { status: 400 })
+  }
+
+  try {
+    return NextResponse.json(await queryFetchLogs(filters))
+  } catch (error) {
+    console.error("Failed to read fetch logs:", error)
+    return NextResponse.json({ error: "Failed to read fetch logs" }, { status: 500 })
+  }
+}
@@ -0,0 +1,105 @@
+import { revalidatePath } from "next/cache"
+import { NextResponse } from "next/server"
+import { Prisma } from "@prisma/client"
+import { requireAdmin } from "@/lib/auth"
+import {
+  activateScoringPreset,
+  getScoringPresets,
+  updateScoringPreset,
+} from "@/lib/scoring-presets"
+import { ScoringWeights } from "@/lib/scoring"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+const WEIGHT_FIELDS: (keyof ScoringWeights)[] = ["easy", "medium", "hard", "streakDay", "contest"]
+const MAX_WEIGHT = 100
+
+interface UpdateScoringPresetBody {
+  name?: unknown;
+  description?: unknown;
+  active?: unknown;
+  easy?: unknown;
+  medium?: unknown;
+  hard?: unknown;
+  streakDay?: unknown;
+  contest?: unknown;
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025"
+}
+
+/**
+ * Edits a preset's name, description or weights.
+ * Sending `{ "active": true }` makes it the formula the leaderboard uses.
+ */
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const denied = requireAdmin(request)
+  if (denied) return denied
+
+  const { id } = await params
+
+  let body: UpdateScoringPresetBody
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 })
+  }
+
+  const data: Prisma.ScoringPresetUpdateInput = {}
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== "string" || !body.name.trim()) {
+      return NextResponse.json({ error: "name must be a non-empty string" }, { status: 400 })
+    }
+    data.name = body.name.trim()
+  }
+
+  if (body.description !== undefined) {
+    if (typeof body.description !== "string") {
+      return NextResponse.json({ error: "description must be a string" }, { status: 400 })
+    }
+    data.description = body.description.trim()
+  }
+
+  for (const field of WEIGHT_FIELDS) {
+    const value = body[field]
+    if (value === undefined) continue
+    if (typeof value !== "number" || !Number.isInteger(value) || value < 0 || value > MAX_WEIGHT) {
+      return NextResponse.json(
+        { error: `${field} must be a whole number between 0 and ${MAX_WEIGHT}` },
+        { status: 400 }
+      )
+    }
+    data[field] = value
+  }
+
+  if (body.active !== undefined && body.active !== true) {
+    return NextResponse.json(
+      { error: "active can only be set to true; activate another preset instead" },
+      { status: 400 }
+    )
+  }
+
+  try {
+    // Make sure the built-in presets exist before editing one of them
+    await getScoringPresets()
+
+    if (Object.keys(data).length > 0) {
+      await updateScoringPreset(id, data)
+    }
+    if (body.active === true) {
+      await activateScoringPreset(id)
+    }
+
+    revalidatePath("/")
+    return NextResponse.json(await getScoringPresets())
+  } catch (error) {
+    if (isNotFound(error)) {
+      return NextResponse.json({ error: `No scoring preset ${id}` }, { status: 404 })
+    }
+
+    console.error(`Failed to update scoring preset ${id}:`, error)
+    return NextResponse.json({ error: "Failed to update scoring preset" }, { status: 500 })
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/auth"
+import { getScoringPresets } from "@/lib/scoring-presets"
+
+/**
+ * Lists the scoring presets and which one is active
+ */
+export async function GET(request: Request) {
+  const denied = requireAdmin(request)
+  if (denied) return denied
+
+  try {
+    return NextResponse.json(await getScoringPresets())
+  } catch (error) {
+    console.error("Failed to read scoring presets:", error)
+    return NextResponse.json({ error: "Failed to read scoring presets" }, { status: 500 })
+  }
+}
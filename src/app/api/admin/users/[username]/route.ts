@@ -0,0 +1,113 @@
+import { revalidatePath } from "next/cache"
+import { NextResponse } from "next/server"
+import { Prisma } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import { requireAdmin } from "@/lib/auth"
+
+type RouteContext = { params: Promise<{ username: string }> }
+
+// Deliberately loose; the mail server has the final say
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+interface UpdateTrackedUserBody {
+  displayName?: unknown;
+  active?: unknown;
+  email?: unknown;
+  digestSubscribed?: unknown;
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025"
+}
+
+/**
+ * Updates a member's display name, active flag, digest email or digest subscription.
+ * Sending `{ "active": false }` deactivates the member without losing their history.
+ */
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const denied = requireAdmin(request)
+  if (denied) return denied
+
+  const { username } = await params
+
+  let body: UpdateTrackedUserBody
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 })
+  }
+
+  const data: Prisma.TrackedUserUpdateInput = {}
+
+  if (body.displayName !== undefined) {
+    if (body.displayName !== null && typeof body.displayName !== "string") {
+      return NextResponse.json({ error: "displayName must be a string or null" }, { status: 400 })
+    }
+    data.displayName = body.displayName?.trim() || null
+  }
+
+  if (body.active !== undefined) {
+    if (typeof body.active !== "boolean") {
+      return NextResponse.json({ error: "active must be a boolean" }, { status: 400 })
+    }
+    data.active = body.active
+  }
+
+  if (body.email !== undefined) {
+    const email = typeof body.email === "string" ? body.email.trim() : body.email
+    if (email !== null && email !== "" && (typeof email !== "string" || !EMAIL_PATTERN.test(email))) {
+      return NextResponse.json({ error: "email must be an email address or null" }, { status: 400 })
+    }
+    data.email = (email as string | null) || null
+  }
+
+  if (body.digestSubscribed !== undefined) {
+    if (typeof body.digestSubscribed !== "boolean") {
+      return NextResponse.json({ error: "digestSubscribed must be a boolean" }, { status: 400 })
+    }
+    data.digestSubscribed = body.digestSubscribed
+  }
+
+  try {
+    const user = await prisma.trackedUser.update({
+      where: { username },
+      data,
+    })
+
+    revalidatePath("/")
+    return NextResponse.json({ user })
+  } catch (error) {
+    if (isNotFound(error)) {
+      return NextResponse.json({ error: `${username} is not tracked` }, { status: 404 })
+    }
+
+    console.error(`Failed to update tracked user ${username}:`, error)
+    return NextResponse.json({ error: "Failed to update tracked user" }, { status: 500 })
+  }
+}
+
+/**
+ * Removes a member from the roster entirely
+ */
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const denied = requireAdmin(request)
+  if (denied) return denied
+
+  const { username } = await params
+
+  try {
+    await prisma.trackedUser.delete({
+      where: { username }
+    })
+
+    revalidatePath("/")
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    if (isNotFound(error)) {
+      return NextResponse.json({ error: `${username} is not tracked` }, { status: 404 })
+    }
+
+    console.error(`Failed to delete tracked user ${username}:`, error)
+    return NextResponse.json({ error: "Failed to delete tracked user" }, { status: 500 })
+  }
+}
@@ -0,0 +1,77 @@
+import { revalidatePath } from "next/cache"
+import { NextResponse } from "next/server"
+import { Prisma } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import { requireAdmin } from "@/lib/auth"
+import { getFullRoster } from "@/lib/roster"
+
+const USERNAME_PATTERN = /^[A-Za-z0-9_.-]{1,64}$/
+
+interface CreateTrackedUserBody {
+  username?: unknown;
+  displayName?: unknown;
+  joinedAt?: unknown;
+}
+
+/**
+ * Lists every tracked member, active or not
+ */
+export async function GET(request: Request) {
+  const denied = requireAdmin(request)
+  if (denied) return denied
+
+  const users = await getFullRoster()
+  return NextResponse.json({ users })
+}
+
+/**
+ * Adds a member to the roster
+ */
+export async function POST(request: Request) {
+  const denied = requireAdmin(request)
+  if (denied) return denied
+
+  let body: CreateTrackedUserBody
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 })
+  }
+
+  const username = typeof body.username === "string" ? body.username.trim() : ""
+  if (!USERNAME_PATTERN.test(username)) {
+    return NextResponse.json({ error: "A valid LeetCode username is required" }, { status: 400 })
+  }
+
+  if (body.displayName !== undefined && body.displayName !== null && typeof body.displayName !== "string") {
+    return NextResponse.json({ error: "displayName must be a string" }, { status: 400 })
+  }
+
+  let joinedAt: Date | undefined
+  if (body.joinedAt !== undefined) {
+    joinedAt = typeof body.joinedAt === "string" ? new Date(body.joinedAt) : undefined
+    if (!joinedAt || isNaN(joinedAt.getTime())) {
+      return NextResponse.json({ error: "joinedAt must be an ISO date string" }, { status: 400 })
+    }
+  }
+
+  try {
+    const user = await prisma.trackedUser.create({
+      data: {
+        username,
+        displayName: (body.displayName as string | null | undefined)?.trim() || null,
+        joinedAt,
+      }
+    })
+
+    revalidatePath("/")
+    return NextResponse.json({ user }, { status: 201 })
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return NextResponse.json({ error: `${username} is already tracked` }, { status: 409 })
+    }
+
+    console.error("Failed to add tracked user:", error)
+    return NextResponse.json({ error: "Failed to add tracked user" }, { status: 500 })
+  }
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server"
+import { Prisma } from "@prisma/client"
+import { requireAdmin } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { parseWebhookFields } from "@/lib/webhooks"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025"
+}
+
+/**
+ * Edits an endpoint's name, URL, format, event filter or `active` flag
+ */
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const denied = requireAdmin(request)
+  if (denied) return denied
+
+  const id = parseInt((await params).id)
+  if (isNaN(id)) {
+    return NextResponse.json({ error: "Endpoint id must be a number" }, { status: 400 })
+  }
+
+  let body: Record<string, unknown>
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 })
+  }
+
+  const parsed = parseWebhookFields(body, { partial: true })
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 })
+  }
+
+  try {
+    const endpoint = await prisma.webhookEndpoint.update({ where: { id }, data: parsed.fields })
+    return NextResponse.json({ endpoint })
+  } catch (error) {
+    if (isNotFound(error)) {
+      return NextResponse.json({ error: `No webhook endpoint ${id}` }, { status: 404 })
+    }
+
+    console.error(`Failed to update webhook endpoint ${id}:`, error)
+    return NextResponse.json({ error: "Failed to update webhook endpoint" }, { status: 500 })
+  }
+}
+
+/**
+ * Removes an endpoint together with its delivery log
+ */
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const denied = requireAdmin(request)
+  if (denied) return denied
+
+  const id = parseInt((await params).id)
+  if (isNaN(id)) {
+    return NextResponse.json({ error: "Endpoint id must be a number" }, { status: 400 })
+  }
+
+  try {
+    await prisma.webhookEndpoint.delete({ where: { id } })
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    if (isNotFound(error)) {
+      return NextResponse.json({ error: `No webhook endpoint ${id}` }, { status: 404 })
+    }
+
+    console.error(`Failed to delete webhook endpoint ${id}:`, error)
+    return NextResponse.json({ error: "Failed to delete webhook endpoint" }, { status: 500 })
+  }
+}
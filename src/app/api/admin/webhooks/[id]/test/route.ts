@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { deliverToEndpoint } from "@/lib/webhooks"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+/**
+ * Sends a sample event to an endpoint, ignoring its event filter, and returns the logged delivery
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  const denied = requireAdmin(request)
+  if (denied) return denied
+
+  const id = parseInt((await params).id)
+  if (isNaN(id)) {
+    return NextResponse.json({ error: "Endpoint id must be a number" }, { status: 400 })
+  }
+
+  const endpoint = await prisma.webhookEndpoint.findUnique({ where: { id } })
+  if (!endpoint) {
+    return NextResponse.json({ error: `No webhook endpoint ${id}` }, { status: 404 })
+  }
+
+  const delivery = await deliverToEndpoint(endpoint, [
+    { type: "milestone", userId: "test", text: `Test message for ${endpoint.name} from the leaderboard` },
+  ])
+  return NextResponse.json({ delivery })
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import { parseWebhookFields, RECENT_DELIVERY_LIMIT } from "@/lib/webhooks"
+
+/**
+ * Lists every webhook endpoint with its most recent deliveries
+ */
+export async function GET(request: Request) {
+  const denied = requireAdmin(request)
+  if (denied) return denied
+
+  const endpoints = await prisma.webhookEndpoint.findMany({
+    orderBy: { createdAt: "asc" },
+    include: {
+      deliveries: { orderBy: { createdAt: "desc" }, take: RECENT_DELIVERY_LIMIT },
+    },
+  })
+  return NextResponse.json({ endpoints })
+}
+
+/**
+ * Adds an endpoint: `{ "name", "url", "format"?, "events"? }`
+ */
+export async function POST(request: Request) {
+  const denied = requireAdmin(request)
+  if (denied) return denied
+
+  let body: Record<string, unknown>
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 })
+  }
+
+  const parsed = parseWebhookFields(body, { partial: false })
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 })
+  }
+  const { name, url, ...rest } = parsed.fields
+
+  try {
+    const endpoint = await prisma.webhookEndpoint.create({
+      data: { name: name!, url: url!, ...rest },
+    })
+    return NextResponse.json({ endpoint }, { status: 201 })
+  } catch (error) {
+    console.error("Failed to add webhook endpoint:", error)
+    return NextResponse.json({ error: "Failed to add webhook endpoint" }, { status: 500 })
+  }
+}
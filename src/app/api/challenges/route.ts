@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server"
+import { getChallengeStandings } from "@/lib/challenges"
+import { findCachedUsers, toRosterUserData } from "@/lib/leaderboard"
+import { getActiveRoster } from "@/lib/roster"
+
+/**
+ * Every challenge, newest first, with each active member's progress
+ */
+export async function GET() {
+  try {
+    const roster = await getActiveRoster()
+    const cachedUsers = await findCachedUsers(roster.map(user => user.username))
+    const names = new Map(
+      toRosterUserData(roster, cachedUsers).map(user => [user.id, user.name])
+    )
+
+    return NextResponse.json({ challenges: await getChallengeStandings(names) })
+  } catch (error) {
+    console.error("Failed to load challenges:", error)
+    return NextResponse.json({ error: "Failed to load challenges" }, { status: 500 })
+  }
+}
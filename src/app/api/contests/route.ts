@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server"
+import {
+  DEFAULT_CONTEST_STANDINGS_LIMIT,
+  getContestStandings,
+  MAX_CONTEST_STANDINGS_LIMIT,
+} from "@/lib/contests"
+import { findCachedUsers, toRosterUserData } from "@/lib/leaderboard"
+import { getActiveRoster } from "@/lib/roster"
+
+/**
+ * Recent contests with the placements of every active member who took part.
+ * `limit` caps how many contests are returned, newest first.
+ */
+export async function GET(request: Request) {
+  const limitParam = new URL(request.url).searchParams.get("limit")
+
+  let limit = DEFAULT_CONTEST_STANDINGS_LIMIT
+  if (limitParam) {
+    limit = parseInt(limitParam)
+    if (isNaN(limit) || limit < 1 || limit > MAX_CONTEST_STANDINGS_LIMIT) {
+      return NextResponse.json(
+        { error: `limit must be between 1 and ${MAX_CONTEST_STANDINGS_LIMIT}` },
+        { status: 400 }
+      )
+    }
+  }
+
+  try {
+    const roster = await getActiveRoster()
+    const cachedUsers = await findCachedUsers(roster.map(user => user.username))
+    const names = new Map(
+      toRosterUserData(roster, cachedUsers).map(user => [user.id, user.name])
+    )
+
+    return NextResponse.json({ contests: await getContestStandings(names, limit) })
+  } catch (error) {
+    console.error("Failed to load contest standings:", error)
+    return NextResponse.json({ error: "Failed to load contest standings" }, { status: 500 })
+  }
+}
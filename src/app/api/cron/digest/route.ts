@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server"
+import { requireCronSecret } from "@/lib/auth"
+import { digestBaseUrl, sendDigest } from "@/lib/digest"
+
+export const maxDuration = 60
+export const dynamic = "force-dynamic"
+
+/**
+ * Emails the weekly digest to subscribed members. Meant to be called by a scheduler once a week:
+ *
+ *   curl -H "Authorization: Bearer $CRON_SECRET" https://<host>/api/cron/digest
+ *
+ * `?dryRun=1`, or DIGEST_DRY_RUN=true, renders every message without sending any.
+ */
+async function handleDigest(request: Request) {
+  const denied = requireCronSecret(request)
+  if (denied) return denied
+
+  const dryRunParam = new URL(request.url).searchParams.get("dryRun")
+  const dryRun = process.env.DIGEST_DRY_RUN === "true" || dryRunParam === "1" || dryRunParam === "true"
+
+  try {
+    const report = await sendDigest(digestBaseUrl(request), { dryRun })
+    console.log(
+      `Weekly digest${dryRun ? " (dry run)" : ""}: ${report.sent.length} sent, ${report.failed.length} failed, ${report.recipients.length} recipients`
+    )
+
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error("Error sending the weekly digest:", error)
+    return NextResponse.json({
+      error: "Weekly digest failed: " + (error instanceof Error ? error.message : String(error))
+    }, { status: 500 })
+  }
+}
+
+export async function GET(request: Request) {
+  return handleDigest(request)
+}
+
+export async function POST(request: Request) {
+  return handleDigest(request)
+}
@@ -0,0 +1,58 @@
+import { revalidatePath } from "next/cache"
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireCronSecret } from "@/lib/auth"
+import { DEFAULT_TIME_BUDGET_MS, refreshStaleUsers } from "@/lib/refresh"
+
+// Let the platform run the handler for the whole refresh budget
+export const maxDuration = 60
+export const dynamic = "force-dynamic"
+
+function getTimeBudgetMs(): number {
+  const configured = parseInt(process.env.REFRESH_TIME_BUDGET_MS || "")
+  return configured > 0 ? configured : DEFAULT_TIME_BUDGET_MS
+}
+
+/**
+ * Refreshes stale tracked users. Meant to be called by a scheduler:
+ *
+ *   curl -H "Authorization: Bearer $CRON_SECRET" https://<host>/api/cron/refresh
+ */
+async function handleRefresh(request: Request) {
+  const denied = requireCronSecret(request)
+  if (denied) return denied
+
+  try {
+    const report = await refreshStaleUsers(getTimeBudgetMs())
+    console.log(
+      `Scheduled refresh: ${report.refreshed.length} refreshed, ${report.failed.length} failed, ${report.skipped.length} skipped`
+    )
+
+    // Re-render the dashboard now rather than when its revalidation window ends
+    if (report.refreshed.length > 0) revalidatePath("/")
+
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error("Error in scheduled refresh:", error)
+
+    await prisma.fetchLog.create({
+      data: {
+        success: false,
+        errorClass: "run_failed",
+        error: error instanceof Error ? error.message : 'Unknown error in scheduled refresh'
+      }
+    })
+
+    return NextResponse.json({
+      error: "Scheduled refresh failed: " + (error instanceof Error ? error.message : String(error))
+    }, { status: 500 })
+  }
+}
+
+export async function GET(request: Request) {
+  return handleRefresh(request)
+}
+
+export async function POST(request: Request) {
+  return handleRefresh(request)
+}
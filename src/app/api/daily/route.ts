@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server"
+import { getDailyBoard } from "@/lib/daily"
+import { findCachedUsers, toRosterUserData } from "@/lib/leaderboard"
+import { getActiveRoster } from "@/lib/roster"
+
+/**
+ * Today's LeetCode daily question, who has solved it and everyone's daily streak.
+ * Only reads the database; refresh runs store the daily.
+ */
+export async function GET() {
+  try {
+    const roster = await getActiveRoster()
+    const cachedUsers = await findCachedUsers(roster.map(user => user.username))
+    const names = new Map(
+      toRosterUserData(roster, cachedUsers).map(user => [user.id, user.name])
+    )
+
+    const board = await getDailyBoard(names)
+    if (!board) {
+      return NextResponse.json({ error: "Today's daily question has not been fetched yet" }, { status: 404 })
+    }
+
+    return NextResponse.json(board)
+  } catch (error) {
+    console.error("Failed to load the daily question:", error)
+    return NextResponse.json({ error: "Failed to load the daily question" }, { status: 500 })
+  }
+}
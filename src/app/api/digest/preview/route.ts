@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+import { buildDigest, digestBaseUrl, renderDigest } from "@/lib/digest"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * This week's digest as it would be emailed, without a personal unsubscribe link.
+ * `?format=text` returns the plain-text version.
+ */
+export async function GET(request: Request) {
+  const format = new URL(request.url).searchParams.get("format")
+
+  try {
+    const message = renderDigest(await buildDigest(), { dashboard: digestBaseUrl(request) })
+
+    if (format === "text") {
+      return new NextResponse(message.text, { headers: { "Content-Type": "text/plain; charset=utf-8" } })
+    }
+    return new NextResponse(message.html, { headers: { "Content-Type": "text/html; charset=utf-8" } })
+  } catch (error) {
+    console.error("Failed to build the digest preview:", error)
+    return NextResponse.json({ error: "Failed to build the digest preview" }, { status: 500 })
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server"
+import {
+  digestBaseUrl,
+  digestLinksEnabled,
+  isValidDigestToken,
+  renderSubscriptionConfirmation,
+  renderSubscriptionPage,
+  setDigestSubscription,
+  subscriptionLink,
+} from "@/lib/digest"
+
+function html(body: string) {
+  return new NextResponse(body, { headers: { "Content-Type": "text/html; charset=utf-8" } })
+}
+
+// Without DIGEST_SECRET no link can be checked
+function linksDisabled() {
+  return NextResponse.json({ error: "Digest links are disabled on this server" }, { status: 503 })
+}
+
+/**
+ * The link on the unsubscribe page. Only asks for confirmation; the change is made by POST.
+ */
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams
+  const username = params.get("user") ?? ""
+
+  if (!digestLinksEnabled()) return linksDisabled()
+  if (!isValidDigestToken(username, params.get("token") ?? "")) {
+    return NextResponse.json({ error: "This link is not valid" }, { status: 400 })
+  }
+
+  return html(renderSubscriptionConfirmation(true, subscriptionLink(digestBaseUrl(request), "subscribe", username)))
+}
+
+/**
+ * Turns a member's weekly digest back on from the confirmation page
+ */
+export async function POST(request: Request) {
+  const params = new URL(request.url).searchParams
+  const username = params.get("user") ?? ""
+  const token = params.get("token") ?? ""
+
+  if (!digestLinksEnabled()) return linksDisabled()
+
+  try {
+    if (!(await setDigestSubscription(username, token, true))) {
+      return NextResponse.json({ error: "This link is not valid" }, { status: 400 })
+    }
+
+    const undoLink = subscriptionLink(digestBaseUrl(request), "unsubscribe", username)
+    return html(renderSubscriptionPage(true, undoLink))
+  } catch (error) {
+    console.error(`Failed to subscribe ${username} to the digest:`, error)
+    return NextResponse.json({ error: "Failed to update the subscription" }, { status: 500 })
+  }
+}
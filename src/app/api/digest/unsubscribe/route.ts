@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server"
+import {
+  digestBaseUrl,
+  digestLinksEnabled,
+  isValidDigestToken,
+  renderSubscriptionConfirmation,
+  renderSubscriptionPage,
+  setDigestSubscription,
+  subscriptionLink,
+} from "@/lib/digest"
+
+function html(body: string) {
+  return new NextResponse(body, { headers: { "Content-Type": "text/html; charset=utf-8" } })
+}
+
+// Without DIGEST_SECRET no link can be checked
+function linksDisabled() {
+  return NextResponse.json({ error: "Digest links are disabled on this server" }, { status: 503 })
+}
+
+/**
+ * The unsubscribe link in the email. Only asks for confirmation; the change is made by POST.
+ */
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams
+  const username = params.get("user") ?? ""
+
+  if (!digestLinksEnabled()) return linksDisabled()
+  if (!isValidDigestToken(username, params.get("token") ?? "")) {
+    return NextResponse.json({ error: "This link is not valid" }, { status: 400 })
+  }
+
+  return html(renderSubscriptionConfirmation(false, subscriptionLink(digestBaseUrl(request), "unsubscribe", username)))
+}
+
+/**
+ * Turns a member's weekly digest off, from the confirmation page or one-click unsubscribe
+ * in mail clients (RFC 8058).
+ */
+export async function POST(request: Request) {
+  const params = new URL(request.url).searchParams
+  const username = params.get("user") ?? ""
+  const token = params.get("token") ?? ""
+
+  if (!digestLinksEnabled()) return linksDisabled()
+
+  try {
+    if (!(await setDigestSubscription(username, token, false))) {
+      return NextResponse.json({ error: "This link is not valid" }, { status: 400 })
+    }
+
+    const undoLink = subscriptionLink(digestBaseUrl(request), "subscribe", username)
+    return html(renderSubscriptionPage(false, undoLink))
+  } catch (error) {
+    console.error(`Failed to unsubscribe ${username} from the digest:`, error)
+    return NextResponse.json({ error: "Failed to update the subscription" }, { status: 500 })
+  }
+}
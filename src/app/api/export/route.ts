@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server"
+import {
+  EXPORT_FORMATS,
+  EXPORT_TYPES,
+  getHistoryExport,
+  getLeaderboardExport,
+  HISTORY_COLUMNS,
+  isRankingMetric,
+  isTimeRange,
+  LEADERBOARD_COLUMNS,
+  TIME_RANGES,
+  toCsv,
+} from "@/lib/export"
+import { RANKING_METRICS } from "@/lib/ranking"
+
+export const dynamic = "force-dynamic"
+
+function download(body: string, contentType: string, filename: string) {
+  return new NextResponse(body, {
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    },
+  })
+}
+
+/**
+ * Downloads the leaderboard or daily history as CSV or JSON.
+ *
+ *   type    leaderboard (default) or history
+ *   range   week (default), month, year or all
+ *   sort    problems (default), points, submissions or streaks; leaderboard only
+ *   users   comma-separated usernames; history only, defaults to every active member
+ *   format  csv (default) or json
+ */
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams
+  const type = params.get("type") ?? "leaderboard"
+  const range = params.get("range") ?? "week"
+  const sort = params.get("sort") ?? "problems"
+  const format = params.get("format") ?? "csv"
+
+  if (!EXPORT_TYPES.includes(type)) {
+    return NextResponse.json({ error: `type must be one of ${EXPORT_TYPES.join(", ")}` }, { status: 400 })
+  }
+  if (!isTimeRange(range)) {
+    return NextResponse.json({ error: `range must be one of ${TIME_RANGES.join(", ")}` }, { status: 400 })
+  }
+  if (!isRankingMetric(sort)) {
+    return NextResponse.json({ error: `sort must be one of ${RANKING_METRICS.join(", ")}` }, { status: 400 })
+  }
+  if (!EXPORT_FORMATS.includes(format)) {
+    return NextResponse.json({ error: `format must be one of ${EXPORT_FORMATS.join(", ")}` }, { status: 400 })
+  }
+
+  const usernames = (params.get("users") ?? "").split(",").map(name => name.trim()).filter(Boolean)
+  const date = new Date().toISOString().slice(0, 10)
+
+  try {
+    if (type === "history") {
+      const { rows, unknown } = await getHistoryExport(range, usernames)
+      if (unknown.length > 0) {
+        return NextResponse.json({ error: `Unknown members: ${unknown.join(", ")}` }, { status: 404 })
+      }
+
+      const filename = `history-${range}-${date}`
+      return format === "json"
+        ? download(JSON.stringify({ range, history: rows }, null, 2), "application/json", `${filename}.json`)
+        : download(toCsv(HISTORY_COLUMNS, rows), "text/csv; charset=utf-8", `${filename}.csv`)
+    }
+
+    const rows = await getLeaderboardExport(range, sort)
+    const filename = `leaderboard-${range}-${sort}-${date}`
+    return format === "json"
+      ? download(JSON.stringify({ range, sort, users: rows }, null, 2), "application/json", `${filename}.json`)
+      : download(toCsv(LEADERBOARD_COLUMNS, rows), "text/csv; charset=utf-8", `${filename}.csv`)
+  } catch (error) {
+    console.error("Failed to export leaderboard data:", error)
+    return NextResponse.json({ error: "Failed to export leaderboard data" }, { status: 500 })
+  }
+}
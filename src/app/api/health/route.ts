@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server"
+import { checkHealth, HealthStatus } from "@/lib/health"
+
+export const dynamic = "force-dynamic"
+
+// Degraded still answers 200 so the dashboard is considered up; only "down" fails the check
+const STATUS_CODES: Record<HealthStatus, number> = {
+  ok: 200,
+  degraded: 200,
+  down: 503,
+}
+
+/**
+ * Health and readiness report for uptime checks.
+ * `?strict=1` answers 503 for "degraded" too, for monitors that should page on stale data.
+ */
+export async function GET(request: Request) {
+  const strict = new URL(request.url).searchParams.get("strict") === "1"
+
+  try {
+    const report = await checkHealth()
+    return NextResponse.json(report, {
+      status: strict && report.status === "degraded" ? 503 : STATUS_CODES[report.status],
+      headers: { "Cache-Control": "no-store" },
+    })
+  } catch (error) {
+    console.error("Health check failed:", error)
+    return NextResponse.json({
+      status: "down",
+      checkedAt: new Date().toISOString(),
+      problems: ["Health check failed: " + (error instanceof Error ? error.message : String(error))],
+    }, { status: 503, headers: { "Cache-Control": "no-store" } })
+  }
+}
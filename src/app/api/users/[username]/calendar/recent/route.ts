@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server"
+import { findCachedUsers } from "@/lib/leaderboard"
+import { prisma } from "@/lib/prisma"
+import { parseSubmissionCalendar } from "@/lib/streaks"
+
+type RouteContext = { params: Promise<{ username: string }> }
+
+/**
+ * A tracked member's submission calendar as stored at their last refresh, covering the last year.
+ * Read from the database, so the dashboard can load one per card without calling LeetCode.
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { username } = await params
+
+  try {
+    const trackedUser = await prisma.trackedUser.findFirst({
+      where: { username: { equals: username, mode: "insensitive" }, active: true },
+    })
+    const cachedUser = trackedUser && (await findCachedUsers([trackedUser.username])).get(trackedUser.username)
+    if (!cachedUser) {
+      return NextResponse.json({ error: `${username} is not tracked` }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      username: trackedUser.username,
+      submissionCalendar: parseSubmissionCalendar(cachedUser.submissionCalendar),
+    }, {
+      headers: { "Cache-Control": "public, s-maxage=300, stale-while-revalidate=3600" },
+    })
+  } catch (error) {
+    console.error(`Failed to load the stored calendar for ${username}:`, error)
+    return NextResponse.json({ error: "Failed to load the calendar" }, { status: 500 })
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server"
+import { leetcodeLimiter } from "@/lib/fetch-queue"
+import leetcode from "@/lib/leetcode"
+import { prisma } from "@/lib/prisma"
+
+type RouteContext = { params: Promise<{ username: string }> }
+
+// LeetCode launched its submission calendar in 2015
+const FIRST_CALENDAR_YEAR = 2015
+
+/**
+ * One year of a tracked member's submission calendar, fetched from LeetCode on demand.
+ * Without `year` it returns the last 365 days. Both include the member's active years.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  const { username } = await params
+  const yearParam = new URL(request.url).searchParams.get("year")
+
+  let year: number | undefined
+  if (yearParam) {
+    year = parseInt(yearParam)
+    if (isNaN(year) || year < FIRST_CALENDAR_YEAR || year > new Date().getUTCFullYear()) {
+      return NextResponse.json({ error: "year must be a calendar year with LeetCode data" }, { status: 400 })
+    }
+  }
+
+  // Only tracked members, so this can't be used to proxy arbitrary LeetCode lookups
+  const trackedUser = await prisma.trackedUser.findFirst({
+    where: { username: { equals: username, mode: "insensitive" }, active: true },
+  })
+  if (!trackedUser) {
+    return NextResponse.json({ error: `${username} is not tracked` }, { status: 404 })
+  }
+
+  try {
+    await leetcodeLimiter.take()
+    const calendar = await leetcode.calendar(trackedUser.username, year)
+
+    return NextResponse.json({
+      username: trackedUser.username,
+      year: year ?? null,
+      ...calendar,
+    }, {
+      headers: { "Cache-Control": "public, s-maxage=3600, stale-while-revalidate=86400" },
+    })
+  } catch (error) {
+    console.error(`Failed to fetch calendar for ${trackedUser.username}:`, error)
+    return NextResponse.json({ error: "Failed to fetch the calendar from LeetCode" }, { status: 502 })
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server"
+import { getApiLeaderboard, parseLeaderboardQuery } from "@/lib/public-api"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * The leaderboard for a time range or custom window, sorted and paginated.
+ * See /api/v1/openapi.json for the parameters and response shape.
+ */
+export async function GET(request: Request) {
+  const parsed = parseLeaderboardQuery(new URL(request.url).searchParams)
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 })
+  }
+
+  try {
+    return NextResponse.json(await getApiLeaderboard(parsed.query))
+  } catch (error) {
+    console.error("Failed to load the v1 leaderboard:", error)
+    return NextResponse.json({ error: "Failed to load the leaderboard" }, { status: 500 })
+  }
+}
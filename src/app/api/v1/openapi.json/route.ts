@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server"
+import { OPENAPI_DOCUMENT } from "@/lib/openapi"
+
+/**
+ * OpenAPI description of the v1 API
+ */
+export async function GET() {
+  return NextResponse.json(OPENAPI_DOCUMENT)
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server"
+import { getApiUser } from "@/lib/public-api"
+
+export const dynamic = "force-dynamic"
+
+type RouteContext = { params: Promise<{ username: string }> }
+
+/**
+ * One active member's totals, progress per period, ranks and achievements
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { username } = await params
+
+  try {
+    const user = await getApiUser(username)
+    if (!user) {
+      return NextResponse.json({ error: `${username} is not on the leaderboard` }, { status: 404 })
+    }
+
+    return NextResponse.json({ data: user })
+  } catch (error) {
+    console.error(`Failed to load ${username} for the v1 API:`, error)
+    return NextResponse.json({ error: "Failed to load the member" }, { status: 500 })
+  }
+}
@@ -0,0 +1,47 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+import { CompareView } from "@/components/compare-view";
+import { ThemeToggle } from "@/components/theme-toggle";
+import Footer from "@/components/footer";
+import {
+  getComparison,
+  MAX_COMPARED_MEMBERS,
+  parseCompareUsers,
+} from "@/lib/compare";
+
+export const metadata: Metadata = {
+  title: "Compare · LeetCode Leaderboard",
+};
+
+type PageProps = {
+  searchParams: Promise<{ users?: string | string[] }>;
+};
+
+export default async function ComparePage({ searchParams }: PageProps) {
+  const { users } = await searchParams;
+  const comparison = await getComparison(parseCompareUsers(users));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-muted">
+      <div className="mx-auto max-w-7xl space-y-8 p-8">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/"
+              className="text-muted-foreground hover:text-foreground"
+              title="Back to the leaderboard"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+            <h1 className="text-3xl font-bold">Compare members</h1>
+          </div>
+          <ThemeToggle />
+        </div>
+
+        <CompareView comparison={comparison} maxMembers={MAX_COMPARED_MEMBERS} />
+      </div>
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,369 @@
+import type { Metadata } from "next";
+import Image from "next/image";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import {
+  ArrowLeft,
+  Calendar,
+  Code,
+  ExternalLink,
+  Flame,
+  LineChart,
+  Medal,
+  Target,
+} from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { AchievementBadges } from "@/components/achievement-badges";
+import { SubmissionHeatmap } from "@/components/submission-heatmap";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { TrendChart } from "@/components/trend-chart";
+import Footer from "@/components/footer";
+import { ACHIEVEMENTS } from "@/lib/achievements";
+import { getMemberProfile, SolvedProblem } from "@/lib/profile";
+import { RANKING_METRICS, RANKING_METRIC_LABELS } from "@/lib/ranking";
+
+// Profiles read the same cache as the dashboard, so a few minutes of staleness is fine
+export const revalidate = 300;
+
+type PageProps = { params: Promise<{ username: string }> };
+
+const DIFFICULTY_COLORS: Record<string, string> = {
+  Easy: "text-green-500",
+  Medium: "text-yellow-500",
+  Hard: "text-red-500",
+};
+
+const DIFFICULTY_BARS: Record<string, string> = {
+  Easy: "bg-green-500",
+  Medium: "bg-yellow-500",
+  Hard: "bg-red-500",
+};
+
+// Recent days listed under the daily progress chart
+const RECENT_DAYS = 14;
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { username } = await params;
+  return { title: `${decodeURIComponent(username)} · LeetCode Leaderboard` };
+}
+
+function groupByDay(problems: SolvedProblem[]) {
+  const days = new Map<string, SolvedProblem[]>();
+  for (const problem of problems) {
+    const day = problem.solvedAt.slice(0, 10);
+    days.set(day, [...(days.get(day) ?? []), problem]);
+  }
+  return [...days.entries()];
+}
+
+export default async function MemberProfilePage({ params }: PageProps) {
+  const { username } = await params;
+  const profile = await getMemberProfile(decodeURIComponent(username));
+  if (!profile) notFound();
+
+  const { user, ranks, history, solvedProblems } = profile;
+  const { easy, medium, hard } = user.problemsByDifficulty;
+  const difficulties = [
+    { label: "Easy", count: easy },
+    { label: "Medium", count: medium },
+    { label: "Hard", count: hard },
+  ];
+  const recentDays = history.slice(-RECENT_DAYS).reverse();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-muted">
+      <div className="mx-auto max-w-7xl space-y-8 p-8">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <Link
+              href="/"
+              className="text-muted-foreground hover:text-foreground"
+              title="Back to the leaderboard"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+            <Image
+              src={user.avatar || "/placeholder.svg?height=64&width=64"}
+              width={64}
+              height={64}
+              alt={user.name}
+              className="h-16 w-16 rounded-full border-2"
+            />
+            <div>
+              <h1 className="text-3xl font-bold">
+                {user.name}
+                {user.unreachable && (
+                  <Badge
+                    variant="outline"
+                    className="ml-2 border-destructive/50 align-middle text-destructive"
+                    title="Recent refreshes failed; these numbers may be out of date"
+                  >
+                    unreachable
+                  </Badge>
+                )}
+              </h1>
+              <a
+                href={`https://leetcode.com/${user.id}`}
+                target="_blank"
+                rel="noreferrer"
+                className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:underline"
+              >
+                {user.id} on LeetCode
+                <ExternalLink className="h-3 w-3" />
+              </a>
+            </div>
+          </div>
+          <div className="flex items-center gap-4">
+            <p className="text-sm text-muted-foreground">
+              Updated {new Date(profile.lastFetch).toLocaleString()}
+            </p>
+            <ThemeToggle />
+          </div>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Problems Solved</CardTitle>
+              <Target className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{user.totalSolved}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Points</CardTitle>
+              <LineChart className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{user.points ?? 0}</div>
+              <p className="text-xs text-muted-foreground">
+                {profile.scoring.name} scoring
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Submissions</CardTitle>
+              <Calendar className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{user.submissions}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Streak</CardTitle>
+              <Flame className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">
+                {user.streak?.current || 0} days
+              </div>
+              <p className="text-xs text-muted-foreground">
+                max {user.streak?.max || 0} · longest ever{" "}
+                {user.streak?.longest || user.streak?.max || 0}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm font-medium">Submissions</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <SubmissionHeatmap
+              calendar={user.submissionCalendar}
+              username={user.id}
+              now={profile.generatedAt}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Achievements</CardTitle>
+            <span className="text-xs text-muted-foreground">
+              {user.achievements?.length ?? 0} of {ACHIEVEMENTS.length} unlocked
+            </span>
+          </CardHeader>
+          <CardContent>
+            {user.achievements?.length ? (
+              <AchievementBadges achievements={user.achievements} />
+            ) : (
+              <p className="text-sm text-muted-foreground">Nothing unlocked yet.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">By Difficulty</CardTitle>
+              <Code className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent className="grid gap-3">
+              {difficulties.map(({ label, count }) => (
+                <div key={label} className="grid gap-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className={DIFFICULTY_COLORS[label]}>{label}</span>
+                    <span className="font-medium">
+                      {count}
+                      <span className="ml-1 text-muted-foreground">
+                        ({user.totalSolved > 0
+                          ? Math.round((count / user.totalSolved) * 100)
+                          : 0}
+                        %)
+                      </span>
+                    </span>
+                  </div>
+                  <div className="h-2 rounded-full bg-muted">
+                    <div
+                      className={`h-2 rounded-full ${DIFFICULTY_BARS[label]}`}
+                      style={{
+                        width: `${user.totalSolved > 0 ? (count / user.totalSolved) * 100 : 0}%`,
+                      }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Leaderboard Rank</CardTitle>
+              <Medal className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent className="grid gap-1">
+              {RANKING_METRICS.map((metric) => (
+                <div key={metric} className="flex items-center justify-between">
+                  <span className="text-sm">{RANKING_METRIC_LABELS[metric]}:</span>
+                  <span className="font-medium">
+                    #{ranks[metric].position}
+                    <span className="ml-1 text-muted-foreground">
+                      of {ranks[metric].of}
+                    </span>
+                  </span>
+                </div>
+              ))}
+              <p className="mt-2 text-xs text-muted-foreground">
+                All-time positions among active members.
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-sm font-medium">Daily Progress</CardTitle>
+            </CardHeader>
+            <CardContent className="grid gap-4">
+              <TrendChart
+                series={[
+                  {
+                    label: "Problems solved",
+                    points: history.map((day) => ({
+                      date: day.date,
+                      value: day.totalSolved,
+                    })),
+                  },
+                ]}
+              />
+              {recentDays.length > 0 && (
+                <div className="grid gap-1 text-sm">
+                  {recentDays.map((day) => (
+                    <div key={day.date} className="flex justify-between">
+                      <span className="text-muted-foreground">{day.date}</span>
+                      <span className="font-medium">
+                        {day.solved > 0 ? `+${day.solved}` : "—"}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-sm font-medium">Streak History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <TrendChart
+                series={[
+                  {
+                    label: "Max streak",
+                    points: history.map((day) => ({
+                      date: day.date,
+                      value: day.maxStreak,
+                    })),
+                    className: "stroke-muted-foreground",
+                  },
+                  {
+                    label: "Current streak",
+                    points: history.map((day) => ({
+                      date: day.date,
+                      value: day.currentStreak,
+                    })),
+                    className: "stroke-orange-500",
+                  },
+                ]}
+              />
+              <p className="mt-2 text-xs text-muted-foreground">
+                Orange is the current streak on each day; grey is the max streak.
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm font-medium">Solved Problems</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {solvedProblems.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No solved problems recorded yet.
+              </p>
+            ) : (
+              <ol className="grid gap-4 border-l pl-4">
+                {groupByDay(solvedProblems).map(([day, problems]) => (
+                  <li key={day} className="grid gap-1">
+                    <span className="text-xs font-medium text-muted-foreground">
+                      {day}
+                    </span>
+                    {problems.map((problem) => (
+                      <div
+                        key={problem.slug}
+                        className="flex flex-wrap items-center gap-2 text-sm"
+                      >
+                        <a
+                          href={`https://leetcode.com/problems/${problem.slug}/`}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="hover:underline"
+                        >
+                          {problem.title}
+                        </a>
+                        <span className={DIFFICULTY_COLORS[problem.difficulty]}>
+                          {problem.difficulty}
+                        </span>
+                        <Badge variant="secondary">{problem.lang}</Badge>
+                      </div>
+                    ))}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { Award } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { findAchievement } from "@/lib/achievements";
+import type { UnlockedAchievement } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+/**
+ * A user's unlocked achievements, newest first. `limit` keeps dashboard cards short.
+ */
+export function AchievementBadges({
+  achievements,
+  limit,
+  className,
+}: {
+  achievements?: UnlockedAchievement[];
+  limit?: number;
+  className?: string;
+}) {
+  const known = (achievements ?? [])
+    .map((unlock) => ({ unlock, achievement: findAchievement(unlock.achievementId) }))
+    .filter((entry) => entry.achievement)
+    .reverse();
+  if (known.length === 0) return null;
+
+  const shown = limit === undefined ? known : known.slice(0, limit);
+  const hidden = known.length - shown.length;
+
+  return (
+    <div className={cn("flex flex-wrap gap-1", className)}>
+      {shown.map(({ unlock, achievement }) => (
+        <Badge
+          key={unlock.achievementId}
+          variant="outline"
+          className="gap-1"
+          title={`${achievement!.description} · unlocked ${new Date(unlock.unlockedAt).toLocaleDateString("en-US", { timeZone: "UTC" })}`}
+        >
+          <Award className="h-3 w-3 text-[#FFD700]" />
+          {achievement!.name}
+        </Badge>
+      ))}
+      {hidden > 0 && <Badge variant="secondary">+{hidden}</Badge>}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import { useState } from "react";
+import { KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+
+/**
+ * Asks for the ADMIN_SECRET before showing an admin page
+ */
+export function AdminSecretForm({
+  onSubmit,
+}: {
+  onSubmit: (secret: string) => void;
+}) {
+  const [value, setValue] = useState("");
+
+  return (
+    <Card className="mx-auto max-w-md">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Admin access
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="flex gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (value.trim()) onSubmit(value.trim());
+          }}
+        >
+          <Input
+            type="password"
+            placeholder="Admin secret"
+            value={value}
+            onChange={(event) => setValue(event.target.value)}
+          />
+          <Button type="submit">Continue</Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,218 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Crown, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { ChallengeStanding } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+const DIFFICULTY_COLORS: Record<string, string> = {
+  Easy: "text-green-500",
+  Medium: "text-yellow-500",
+  Hard: "text-red-500",
+};
+
+function profileHref(userId: string) {
+  return `/u/${encodeURIComponent(userId)}`;
+}
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleDateString();
+}
+
+function ChallengeCard({ challenge }: { challenge: ChallengeStanding }) {
+  const total = challenge.problems.length;
+  const winner = challenge.members.find((member) => member.finishedAt);
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium">{challenge.title}</CardTitle>
+        <p className="text-xs text-muted-foreground">
+          {formatDate(challenge.startsAt)} – {formatDate(challenge.endsAt)}
+        </p>
+      </CardHeader>
+      <CardContent className="grid gap-4">
+        <div className="flex flex-wrap gap-1">
+          {challenge.problems.map((problem) => (
+            <Badge key={problem.slug} variant="outline">
+              <a
+                href={`https://leetcode.com/problems/${problem.slug}/`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className={cn(
+                  "hover:underline",
+                  problem.difficulty && DIFFICULTY_COLORS[problem.difficulty]
+                )}
+              >
+                {problem.title}
+              </a>
+            </Badge>
+          ))}
+        </div>
+        <div className="grid gap-2">
+          {challenge.members.map((member) => (
+            <div key={member.userId} className="grid gap-1">
+              <div className="flex items-center justify-between text-sm">
+                <span className="inline-flex items-center gap-1">
+                  <Link href={profileHref(member.userId)} className="hover:underline">
+                    {member.name}
+                  </Link>
+                  {member === winner && <Crown className="h-3 w-3 text-[#FFD700]" />}
+                </span>
+                <span className="text-muted-foreground">
+                  {member.finishedAt
+                    ? `done ${new Date(member.finishedAt).toLocaleString()}`
+                    : `${member.solved.length}/${total}`}
+                </span>
+              </div>
+              <div className="h-2 overflow-hidden rounded-full bg-muted">
+                <div
+                  className={cn(
+                    "h-full rounded-full",
+                    member.finishedAt ? "bg-green-500" : "bg-primary"
+                  )}
+                  style={{ width: `${(member.solved.length / total) * 100}%` }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Running and upcoming challenges with every member's progress, then the archive.
+ * Loaded on mount; inactive tabs are unmounted, so this waits until the tab is opened.
+ */
+export function ChallengeBoard() {
+  const [challenges, setChallenges] = useState<ChallengeStanding[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/challenges")
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load challenges");
+        }
+        setChallenges(data.challenges);
+      })
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "An error occurred")
+      );
+  }, []);
+
+  if (error) {
+    return <p className="text-center text-sm text-destructive">{error}</p>;
+  }
+
+  if (!challenges) {
+    return (
+      <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading challenges...
+      </div>
+    );
+  }
+
+  const now = new Date().toISOString();
+  const running = challenges.filter(
+    (challenge) => challenge.startsAt <= now && challenge.endsAt >= now
+  );
+  const upcoming = challenges.filter((challenge) => challenge.startsAt > now);
+  const past = challenges.filter((challenge) => challenge.endsAt < now);
+
+  if (challenges.length === 0) {
+    return (
+      <p className="text-center text-sm text-muted-foreground">
+        No challenges yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {running.length > 0 ? (
+        <div className="grid gap-4 md:grid-cols-2">
+          {running.map((challenge) => (
+            <ChallengeCard key={challenge.id} challenge={challenge} />
+          ))}
+        </div>
+      ) : (
+        <p className="text-center text-sm text-muted-foreground">
+          No challenge is running right now.
+        </p>
+      )}
+
+      {upcoming.length > 0 && (
+        <section className="space-y-2">
+          <h2 className="text-lg font-semibold">Upcoming</h2>
+          <ul className="grid gap-1 text-sm">
+            {upcoming.map((challenge) => (
+              <li key={challenge.id}>
+                {challenge.title}{" "}
+                <span className="text-muted-foreground">
+                  starts {formatDate(challenge.startsAt)} · {challenge.problems.length}{" "}
+                  problems
+                </span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {past.length > 0 && (
+        <section className="space-y-2">
+          <h2 className="text-lg font-semibold">Archive</h2>
+          <Card>
+            <CardContent className="overflow-x-auto p-0">
+              <table className="w-full text-sm">
+                <thead className="border-b text-left text-muted-foreground">
+                  <tr>
+                    <th className="px-3 py-2 font-medium">Challenge</th>
+                    <th className="px-3 py-2 font-medium">Dates</th>
+                    <th className="px-3 py-2 font-medium">First to finish</th>
+                    <th className="px-3 py-2 font-medium">Finished</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {past.map((challenge) => {
+                    const finishers = challenge.members.filter((member) => member.finishedAt);
+                    return (
+                      <tr key={challenge.id} className="border-b last:border-0">
+                        <td className="px-3 py-2">{challenge.title}</td>
+                        <td className="px-3 py-2 text-muted-foreground">
+                          {formatDate(challenge.startsAt)} – {formatDate(challenge.endsAt)}
+                        </td>
+                        <td className="px-3 py-2">
+                          {finishers[0] ? (
+                            <Link
+                              href={profileHref(finishers[0].userId)}
+                              className="hover:underline"
+                            >
+                              {finishers[0].name}
+                            </Link>
+                          ) : (
+                            <span className="text-muted-foreground">Nobody</span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2">
+                          {finishers.length}/{challenge.members.length}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        </section>
+      )}
+    </div>
+  );
+}
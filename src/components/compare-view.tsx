@@ -0,0 +1,259 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { AlertCircle, Crown } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { MemberMultiSelect } from "@/components/member-multi-select";
+import { TrendChart, TrendSeries } from "@/components/trend-chart";
+import type { Comparison, SolvedHistoryPoint } from "@/lib/compare";
+import { MS_IN_DAY, PERIOD_DAYS } from "@/lib/periods";
+import { acceptanceRate } from "@/lib/scoring";
+import type { TimeRange, UserData } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+// One colour per compared member, in selection order
+const COLORS = [
+  { stroke: "stroke-blue-500", bg: "bg-blue-500" },
+  { stroke: "stroke-orange-500", bg: "bg-orange-500" },
+  { stroke: "stroke-green-500", bg: "bg-green-500" },
+  { stroke: "stroke-purple-500", bg: "bg-purple-500" },
+  { stroke: "stroke-red-500", bg: "bg-red-500" },
+  { stroke: "stroke-cyan-500", bg: "bg-cyan-500" },
+];
+
+type Metric = {
+  label: string;
+  value: (user: UserData) => number | null;
+  format?: (value: number) => string;
+};
+
+const METRICS: Metric[] = [
+  { label: "Problems solved", value: (user) => user.totalSolved },
+  { label: "Easy", value: (user) => user.problemsByDifficulty.easy },
+  { label: "Medium", value: (user) => user.problemsByDifficulty.medium },
+  { label: "Hard", value: (user) => user.problemsByDifficulty.hard },
+  { label: "Points", value: (user) => user.points ?? 0 },
+  { label: "Accepted submissions", value: (user) => user.submissions },
+  { label: "Current streak", value: (user) => user.streak?.current || 0 },
+  { label: "Max streak", value: (user) => user.streak?.max || 0 },
+  {
+    label: "Longest streak ever",
+    value: (user) => user.streak?.longest || user.streak?.max || 0,
+  },
+  {
+    label: "Acceptance",
+    value: acceptanceRate,
+    format: (value) => `${value}%`,
+  },
+];
+
+/**
+ * Ids of the users holding the best value; nobody leads when all are zero or unknown
+ */
+function leadersOf(users: UserData[], metric: Metric): Set<string> {
+  const values = users.map((user) => metric.value(user));
+  const best = Math.max(...values.map((value) => value ?? -Infinity));
+  if (!(best > 0) || users.length < 2) return new Set();
+  return new Set(users.filter((_, index) => values[index] === best).map((user) => user.id));
+}
+
+/**
+ * Problems solved since the start of the range ending at `now`. The baseline is the
+ * last snapshot on or before the range start, like the dashboard's period stats.
+ */
+function progressSince(history: SolvedHistoryPoint[], range: TimeRange, now: string) {
+  if (range === "all") {
+    const baseline = history[0]?.totalSolved ?? 0;
+    return history.map((point) => ({ date: point.date, value: point.totalSolved - baseline }));
+  }
+
+  const cutoff = new Date(new Date(now).getTime() - PERIOD_DAYS[range] * MS_IN_DAY).toISOString().slice(0, 10);
+  const before = history.filter((point) => point.date <= cutoff);
+  const inRange = history.filter((point) => point.date > cutoff);
+  const baseline = before[before.length - 1]?.totalSolved ?? inRange[0]?.totalSolved ?? 0;
+
+  return inRange.map((point) => ({
+    date: point.date,
+    value: Math.max(0, point.totalSolved - baseline),
+  }));
+}
+
+export function CompareView({
+  comparison,
+  maxMembers,
+}: {
+  comparison: Comparison;
+  maxMembers: number;
+}) {
+  const router = useRouter();
+  const [timeRange, setTimeRange] = useState<TimeRange>("month");
+  const { members, users, history, unknown, generatedAt } = comparison;
+
+  const selectMembers = (ids: string[]) => {
+    const query = ids.length > 0 ? `?users=${ids.map(encodeURIComponent).join(",")}` : "";
+    router.replace(`/compare${query}`);
+  };
+
+  const leaders = METRICS.map((metric) => leadersOf(users, metric));
+  const leadCount = (user: UserData) => leaders.filter((ids) => ids.has(user.id)).length;
+
+  const series: TrendSeries[] = users.map((user, index) => ({
+    label: user.name,
+    points: progressSince(history[user.id] ?? [], timeRange, generatedAt),
+    className: COLORS[index % COLORS.length].stroke,
+  }));
+
+  return (
+    <div className="space-y-8">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm font-medium">Members</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <MemberMultiSelect
+            members={members}
+            value={users.map((user) => user.id)}
+            onChange={selectMembers}
+            max={maxMembers}
+          />
+        </CardContent>
+      </Card>
+
+      {unknown.length > 0 && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Unknown members</AlertTitle>
+          <AlertDescription>
+            {unknown.join(", ")} {unknown.length === 1 ? "is" : "are"} not on
+            the leaderboard.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {users.length === 0 ? (
+        <p className="text-center text-muted-foreground">
+          Pick two or more members to compare them side by side.
+        </p>
+      ) : (
+        <>
+          <Card>
+            <CardContent className="overflow-x-auto p-0">
+              <table className="w-full text-sm">
+                <thead className="border-b text-left">
+                  <tr>
+                    <th className="p-3 font-medium text-muted-foreground">Metric</th>
+                    {users.map((user, index) => (
+                      <th key={user.id} className="p-3 font-medium">
+                        <div className="flex items-center gap-2">
+                          <span
+                            className={cn(
+                              "h-2 w-2 rounded-full",
+                              COLORS[index % COLORS.length].bg
+                            )}
+                          />
+                          <Link
+                            href={`/u/${encodeURIComponent(user.id)}`}
+                            className="hover:underline"
+                          >
+                            {user.name}
+                          </Link>
+                        </div>
+                        {users.length > 1 && (
+                          <p className="text-xs font-normal text-muted-foreground">
+                            leads {leadCount(user)} of {METRICS.length}
+                          </p>
+                        )}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {METRICS.map((metric, metricIndex) => (
+                    <tr key={metric.label} className="border-b last:border-0">
+                      <td className="p-3 text-muted-foreground">{metric.label}</td>
+                      {users.map((user) => {
+                        const value = metric.value(user);
+                        const leads = leaders[metricIndex].has(user.id);
+                        return (
+                          <td
+                            key={user.id}
+                            className={cn(
+                              "p-3",
+                              leads && "bg-primary/10 font-bold"
+                            )}
+                          >
+                            <span className="inline-flex items-center gap-1">
+                              {value === null
+                                ? "—"
+                                : metric.format
+                                  ? metric.format(value)
+                                  : value}
+                              {leads && (
+                                <Crown className="h-3 w-3 text-[#FFD700]" />
+                              )}
+                            </span>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="text-sm font-medium">
+                Problems solved over time
+              </CardTitle>
+              <Select
+                value={timeRange}
+                onValueChange={(value) => setTimeRange(value as TimeRange)}
+              >
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue placeholder="Select time range" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="week">This Week</SelectItem>
+                  <SelectItem value="month">This Month</SelectItem>
+                  <SelectItem value="year">This Year</SelectItem>
+                  <SelectItem value="all">All Time</SelectItem>
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent className="grid gap-3">
+              <TrendChart
+                series={series}
+                emptyMessage="Not enough history in this range yet."
+              />
+              <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+                {users.map((user, index) => (
+                  <span key={user.id} className="inline-flex items-center gap-1">
+                    <span
+                      className={cn(
+                        "h-2 w-2 rounded-full",
+                        COLORS[index % COLORS.length].bg
+                      )}
+                    />
+                    {user.name}
+                  </span>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { ContestStanding } from "@/lib/types";
+
+function formatFinishTime(seconds: number) {
+  const minutes = Math.floor(seconds / 60);
+  return `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, "0")}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Members' placements in recent contests, newest first.
+ * Loaded on mount; inactive tabs are unmounted, so this waits until the tab is opened.
+ */
+export function ContestStandings() {
+  const [contests, setContests] = useState<ContestStanding[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/contests")
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load contests");
+        }
+        setContests(data.contests);
+      })
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "An error occurred")
+      );
+  }, []);
+
+  if (error) {
+    return <p className="text-center text-sm text-destructive">{error}</p>;
+  }
+
+  if (!contests) {
+    return (
+      <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading contests...
+      </div>
+    );
+  }
+
+  if (contests.length === 0) {
+    return (
+      <p className="text-center text-sm text-muted-foreground">
+        Nobody has taken part in a rated contest yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      {contests.map((contest) => (
+        <Card key={contest.title}>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">{contest.title}</CardTitle>
+            <p className="text-xs text-muted-foreground">
+              {new Date(contest.startTime).toLocaleDateString()}
+            </p>
+          </CardHeader>
+          <CardContent className="overflow-x-auto p-0">
+            <table className="w-full text-sm">
+              <thead className="border-b text-left text-muted-foreground">
+                <tr>
+                  <th className="px-3 py-2 font-medium">#</th>
+                  <th className="px-3 py-2 font-medium">Member</th>
+                  <th className="px-3 py-2 font-medium">Rank</th>
+                  <th className="px-3 py-2 font-medium">Solved</th>
+                  <th className="px-3 py-2 font-medium">Finish</th>
+                  <th className="px-3 py-2 font-medium">Rating</th>
+                </tr>
+              </thead>
+              <tbody>
+                {contest.results.map((result, index) => (
+                  <tr key={result.userId} className="border-b last:border-0">
+                    <td className="px-3 py-2">{index + 1}</td>
+                    <td className="px-3 py-2">
+                      <Link
+                        href={`/u/${encodeURIComponent(result.userId)}`}
+                        className="hover:underline"
+                      >
+                        {result.name}
+                      </Link>
+                    </td>
+                    <td className="px-3 py-2">{result.ranking.toLocaleString()}</td>
+                    <td className="px-3 py-2">
+                      {result.problemsSolved}/{result.totalProblems}
+                    </td>
+                    <td className="px-3 py-2">
+                      {formatFinishTime(result.finishTimeSeconds)}
+                    </td>
+                    <td className="px-3 py-2">{Math.round(result.rating)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import Link from "next/link";
+import { CalendarCheck, Check, Flame } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { DailyBoard } from "@/lib/types";
+
+const DIFFICULTY_COLORS: Record<string, string> = {
+  Easy: "text-green-500",
+  Medium: "text-yellow-500",
+  Hard: "text-red-500",
+};
+
+function profileHref(userId: string) {
+  return `/u/${encodeURIComponent(userId)}`;
+}
+
+/**
+ * Today's daily question with who has and hasn't solved it
+ */
+export function DailyBanner({ board }: { board: DailyBoard }) {
+  const solved = board.members
+    .filter((member) => member.solvedAt)
+    .sort((a, b) => a.solvedAt!.localeCompare(b.solvedAt!));
+  const unsolved = board.members.filter((member) => !member.solvedAt);
+
+  return (
+    <Card>
+      <CardContent className="flex flex-col gap-3 p-4 md:flex-row md:items-center md:justify-between">
+        <div className="flex items-center gap-2">
+          <CalendarCheck className="h-5 w-5 text-muted-foreground" />
+          <span className="text-sm text-muted-foreground">Today&apos;s daily:</span>
+          <a
+            href={`https://leetcode.com/problems/${board.question.slug}/`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="font-medium hover:underline"
+          >
+            {board.question.title}
+          </a>
+          <span className={DIFFICULTY_COLORS[board.question.difficulty]}>
+            {board.question.difficulty}
+          </span>
+        </div>
+        <div className="flex flex-wrap items-center gap-1">
+          {solved.map((member) => (
+            <Badge
+              key={member.userId}
+              className="gap-1"
+              title={`Solved at ${new Date(member.solvedAt!).toLocaleTimeString("en-US", { timeZone: "UTC", timeStyle: "short" })} UTC`}
+            >
+              <Check className="h-3 w-3" />
+              <Link href={profileHref(member.userId)} className="hover:underline">
+                {member.name}
+              </Link>
+            </Badge>
+          ))}
+          {unsolved.map((member) => (
+            <Badge key={member.userId} variant="outline" className="text-muted-foreground">
+              <Link href={profileHref(member.userId)} className="hover:underline">
+                {member.name}
+              </Link>
+            </Badge>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Members ranked by consecutive daily questions solved
+ */
+export function DailyStreakBoard({ board }: { board: DailyBoard }) {
+  return (
+    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+      {board.members.map((member, index) => (
+        <Card key={member.userId}>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">
+              {index + 1}.{" "}
+              <Link href={profileHref(member.userId)} className="hover:underline">
+                {member.name}
+              </Link>
+            </CardTitle>
+            <Flame className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{member.streak.current}</div>
+            <p className="text-xs text-muted-foreground">
+              dailies in a row · best {member.streak.best}
+              {member.solvedAt && " · done today"}
+            </p>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
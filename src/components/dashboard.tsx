@@ -0,0 +1,792 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import {
+  Calendar,
+  Medal,
+  Target,
+  Trophy,
+  Code,
+  LineChart,
+  Flame,
+  AlertCircle,
+  TrendingUp,
+  Users,
+  X,
+  Swords,
+  Award,
+} from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AchievementBadges } from "@/components/achievement-badges";
+import { ChallengeBoard } from "@/components/challenge-board";
+import { ContestStandings } from "@/components/contest-standings";
+import { DailyBanner, DailyStreakBoard } from "@/components/daily-question";
+import { ExportMenu } from "@/components/export-menu";
+import { LazySubmissionHeatmap } from "@/components/submission-heatmap";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { TrendChart } from "@/components/trend-chart";
+import Footer from "@/components/footer";
+import { findAchievement } from "@/lib/achievements";
+import type { DashboardData } from "@/lib/dashboard";
+import { rankUsers } from "@/lib/ranking";
+import { describeWeights } from "@/lib/scoring";
+import type {
+  DailyBoard,
+  LeaderboardUser,
+  RankingMetric,
+  TimeRange,
+} from "@/lib/types";
+
+const EMPTY_PERIOD = {
+  totalSolved: 0,
+  problemsByDifficulty: { easy: 0, medium: 0, hard: 0 },
+  submissions: 0,
+  points: 0,
+};
+
+function profileHref(userId: string) {
+  return `/u/${encodeURIComponent(userId)}`;
+}
+
+// The ranking each tab shows; "By Difficulty" lists members by problems solved.
+// Contests, challenges and dailies are not ranked over time ranges, so those tabs have none.
+const TAB_METRICS: Partial<Record<string, RankingMetric>> = {
+  problems: "problems",
+  points: "points",
+  difficulty: "problems",
+  submissions: "submissions",
+  streaks: "streaks",
+};
+
+// Most members listed in the "biggest climbers" strip
+const MAX_CLIMBERS = 5;
+
+// Unlocks listed in the team-wide "recent unlocks" strip
+const MAX_RECENT_UNLOCKS = 8;
+
+// Badges shown on a dashboard card before collapsing into "+N"
+const MAX_CARD_ACHIEVEMENTS = 3;
+
+const RANGE_LABELS: Record<TimeRange, string> = {
+  week: "the previous week",
+  month: "the previous month",
+  year: "the previous year",
+  all: "a week ago",
+};
+
+function RankMovementIndicator({
+  user,
+  timeRange,
+  metric,
+}: {
+  user: LeaderboardUser;
+  timeRange: TimeRange;
+  metric: RankingMetric;
+}) {
+  const movement = user.rankMovement?.[timeRange]?.[metric];
+  if (movement === undefined || movement === 0) return null;
+
+  if (movement === "new") {
+    return (
+      <span
+        className="ml-1 text-xs font-semibold text-blue-500"
+        title={`Not ranked in ${RANGE_LABELS[timeRange]}`}
+      >
+        NEW
+      </span>
+    );
+  }
+
+  const places = Math.abs(movement);
+  return (
+    <span
+      className={`ml-1 text-xs font-semibold ${movement > 0 ? "text-green-500" : "text-red-500"}`}
+      title={`${movement > 0 ? "Up" : "Down"} ${places} place${places === 1 ? "" : "s"} since ${RANGE_LABELS[timeRange]}`}
+    >
+      {movement > 0 ? "▲" : "▼"}
+      {places}
+    </span>
+  );
+}
+
+function UnreachableBadge({ user }: { user: LeaderboardUser }) {
+  if (!user.unreachable) return null;
+
+  return (
+    <Badge
+      variant="outline"
+      className="ml-1 border-destructive/50 text-destructive"
+      title="Recent refreshes failed; these numbers may be out of date"
+    >
+      unreachable
+    </Badge>
+  );
+}
+
+/**
+ * The leaderboard with its tabs and range select. The page renders it on the
+ * server with the data already loaded, so the first paint shows the members.
+ */
+export function Dashboard({
+  data,
+  daily,
+}: {
+  data: DashboardData;
+  daily: DailyBoard | null;
+}) {
+  const [timeRange, setTimeRange] = useState<TimeRange>("week");
+  const [tab, setTab] = useState("problems");
+  const [showErrors, setShowErrors] = useState(true);
+  const {
+    users: userData,
+    errors: fetchErrors,
+    unreachable: unreachableUsers = [],
+    fromCache: isFromCache,
+    timestamp: cacheTimestamp,
+    scoring,
+  } = data;
+
+  // Period numbers are computed on the server, so a range change only swaps them in
+  const filteredData = useMemo(
+    () =>
+      userData
+        .map((user) => {
+          if (timeRange === "all") {
+            return user;
+          }
+
+          const period = user.periods?.[timeRange] ?? EMPTY_PERIOD;
+
+          return {
+            ...user,
+            totalSolved: period.totalSolved,
+            problemsByDifficulty: period.problemsByDifficulty,
+            submissions: period.submissions,
+            points: period.points,
+            // Streak remains unchanged as it's always current
+          };
+        })
+        .sort((a, b) => b.totalSolved - a.totalSolved),
+    [timeRange, userData]
+  );
+
+  // Get top 3 users for podium
+  const topUsers = filteredData.slice(0, 3);
+
+  // Largest gains in the active tab's ranking
+  const tabMetric = TAB_METRICS[tab];
+  const climbers = filteredData
+    .map((user) => ({
+      user,
+      movement: tabMetric && user.rankMovement?.[timeRange]?.[tabMetric],
+    }))
+    .filter(
+      (entry): entry is { user: LeaderboardUser; movement: number } =>
+        typeof entry.movement === "number" && entry.movement > 0
+    )
+    .sort((a, b) => b.movement - a.movement)
+    .slice(0, MAX_CLIMBERS);
+
+  const recentUnlocks = userData
+    .flatMap((user) =>
+      (user.achievements ?? []).map((unlock) => ({
+        user,
+        unlock,
+        achievement: findAchievement(unlock.achievementId),
+      }))
+    )
+    .filter((entry) => entry.achievement)
+    .sort((a, b) => b.unlock.unlockedAt.localeCompare(a.unlock.unlockedAt))
+    .slice(0, MAX_RECENT_UNLOCKS);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-muted">
+      <div className="mx-auto max-w-7xl space-y-8 p-8">
+        {showErrors && fetchErrors.length > 0 && (
+          <Alert variant="destructive" className="relative">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Failed to fetch some users</AlertTitle>
+            <AlertDescription>
+              <div>
+                <p>The following users could not be fetched from LeetCode:</p>
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {fetchErrors.map((err) => (
+                    <Badge
+                      key={err.username}
+                      variant="outline"
+                      className="bg-destructive/10"
+                    >
+                      {err.username}: {err.error}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            </AlertDescription>
+            <button
+              className="absolute right-2 top-2 rounded-full p-1 hover:bg-destructive/20"
+              onClick={() => setShowErrors(false)}
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </Alert>
+        )}
+
+        {showErrors && unreachableUsers.length > 0 && (
+          <Alert className="relative">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Some members are unreachable</AlertTitle>
+            <AlertDescription>
+              <div>
+                <p>
+                  The last few refreshes failed for these members, so their
+                  numbers may be out of date:
+                </p>
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {unreachableUsers.map((user) => (
+                    <Badge
+                      key={user.username}
+                      variant="outline"
+                      title={user.lastError ?? undefined}
+                    >
+                      {user.username}: {user.consecutiveFailures} failed
+                      refreshes
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            </AlertDescription>
+            <button
+              className="absolute right-2 top-2 rounded-full p-1 hover:bg-muted"
+              onClick={() => setShowErrors(false)}
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </Alert>
+        )}
+
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">LeetCode Champions</h1>
+            {isFromCache && cacheTimestamp && (
+              <p className="text-xs text-muted-foreground">
+                Using cached data from{" "}
+                {new Date(cacheTimestamp).toLocaleString("en-US", {
+                  timeZone: "UTC",
+                  dateStyle: "medium",
+                  timeStyle: "short",
+                })}{" "}
+                UTC
+              </p>
+            )}
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" asChild>
+              <Link href="/compare">
+                <Users className="mr-2 h-4 w-4" />
+                Compare
+              </Link>
+            </Button>
+            <Select
+              defaultValue={timeRange}
+              onValueChange={(value) => setTimeRange(value as TimeRange)}
+            >
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="Select time range" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="week">This Week</SelectItem>
+                <SelectItem value="month">This Month</SelectItem>
+                <SelectItem value="year">This Year</SelectItem>
+                <SelectItem value="all">All Time</SelectItem>
+              </SelectContent>
+            </Select>
+            <ExportMenu timeRange={timeRange} metric={tabMetric ?? "problems"} />
+            <ThemeToggle />
+          </div>
+        </div>
+
+        {/* Podium Section */}
+        <section className="flex flex-col gap-4 min-h-96">
+          {topUsers.length >= 3 && (
+            <div className="flex justify-center gap-4 py-8">
+              {/* Second Place */}
+              <div className="flex flex-col items-center">
+                <div className="relative mb-2">
+                  <Link href={profileHref(topUsers[1].id)}>
+                    <Image
+                      src={
+                        topUsers[1].avatar ||
+                        "/placeholder.svg?height=80&width=80"
+                      }
+                      width={80}
+                      height={80}
+                      alt={topUsers[1].name}
+                      className="h-20 w-20 rounded-full border-4 border-silver"
+                    />
+                  </Link>
+                  <Medal className="absolute -bottom-2 -right-2 h-8 w-8 text-[#C0C0C0]" />
+                </div>
+                <div className="h-32 w-24 rounded-t-lg bg-[#C0C0C0]" />
+                <Link
+                  href={profileHref(topUsers[1].id)}
+                  className="mt-2 font-semibold hover:underline"
+                >
+                  {topUsers[1].name}
+                </Link>
+                <p className="text-sm text-muted-foreground">
+                  {topUsers[1].totalSolved} solved
+                  <RankMovementIndicator
+                    user={topUsers[1]}
+                    timeRange={timeRange}
+                    metric="problems"
+                  />
+                </p>
+              </div>
+
+              {/* First Place */}
+              <div className="flex flex-col items-center">
+                <div className="relative mb-2">
+                  <Link href={profileHref(topUsers[0].id)}>
+                    <Image
+                      src={
+                        topUsers[0].avatar ||
+                        "/placeholder.svg?height=96&width=96"
+                      }
+                      width={96}
+                      height={96}
+                      alt={topUsers[0].name}
+                      className="h-24 w-24 rounded-full border-4 border-gold"
+                    />
+                  </Link>
+                  <Trophy className="absolute -bottom-2 -right-2 h-8 w-8 text-[#FFD700]" />
+                </div>
+                <div className="h-40 w-24 rounded-t-lg bg-[#FFD700]" />
+                <Link
+                  href={profileHref(topUsers[0].id)}
+                  className="mt-2 font-semibold hover:underline"
+                >
+                  {topUsers[0].name}
+                </Link>
+                <p className="text-sm text-muted-foreground">
+                  {topUsers[0].totalSolved} solved
+                  <RankMovementIndicator
+                    user={topUsers[0]}
+                    timeRange={timeRange}
+                    metric="problems"
+                  />
+                </p>
+              </div>
+
+              {/* Third Place */}
+              <div className="flex flex-col items-center">
+                <div className="relative mb-2">
+                  <Link href={profileHref(topUsers[2].id)}>
+                    <Image
+                      src={
+                        topUsers[2].avatar ||
+                        "/placeholder.svg?height=64&width=64"
+                      }
+                      width={64}
+                      height={64}
+                      alt={topUsers[2].name}
+                      className="h-16 w-16 rounded-full border-4 border-bronze"
+                    />
+                  </Link>
+                  <Medal className="absolute -bottom-2 -right-2 h-8 w-8 text-[#CD7F32]" />
+                </div>
+                <div className="h-24 w-24 rounded-t-lg bg-[#CD7F32]" />
+                <Link
+                  href={profileHref(topUsers[2].id)}
+                  className="mt-2 font-semibold hover:underline"
+                >
+                  {topUsers[2].name}
+                </Link>
+                <p className="text-sm text-muted-foreground">
+                  {topUsers[2].totalSolved} solved
+                  <RankMovementIndicator
+                    user={topUsers[2]}
+                    timeRange={timeRange}
+                    metric="problems"
+                  />
+                </p>
+              </div>
+            </div>
+          )}
+        </section>
+
+        {/* Stats Categories */}
+        {daily && <DailyBanner board={daily} />}
+
+        {climbers.length > 0 && (
+          <section className="flex flex-wrap items-center justify-center gap-2">
+            <span className="flex items-center gap-1 text-sm font-medium">
+              <TrendingUp className="h-4 w-4 text-green-500" />
+              Biggest climbers
+            </span>
+            {climbers.map(({ user, movement }) => (
+              <Badge key={user.id} variant="secondary" className="gap-1">
+                <Link href={profileHref(user.id)} className="hover:underline">
+                  {user.name}
+                </Link>
+                <span className="text-green-500">▲{movement}</span>
+              </Badge>
+            ))}
+          </section>
+        )}
+
+        {recentUnlocks.length > 0 && (
+          <section className="flex flex-wrap items-center justify-center gap-2">
+            <span className="flex items-center gap-1 text-sm font-medium">
+              <Award className="h-4 w-4 text-[#FFD700]" />
+              Recent unlocks
+            </span>
+            {recentUnlocks.map(({ user, unlock, achievement }) => (
+              <Badge
+                key={`${user.id}-${unlock.achievementId}`}
+                variant="secondary"
+                className="gap-1"
+                title={`${achievement!.description} · ${new Date(unlock.unlockedAt).toLocaleDateString("en-US", { timeZone: "UTC" })}`}
+              >
+                <Link href={profileHref(user.id)} className="hover:underline">
+                  {user.name}
+                </Link>
+                <span className="text-muted-foreground">{achievement!.name}</span>
+              </Badge>
+            ))}
+          </section>
+        )}
+
+        <Tabs
+          value={tab}
+          onValueChange={setTab}
+          className="w-full flex flex-col justify-center"
+        >
+          <TabsList className="flex flex-wrap min-h-fit w-fit self-center">
+            <TabsTrigger value="problems">Problems Solved</TabsTrigger>
+            <TabsTrigger value="points">Points</TabsTrigger>
+            <TabsTrigger value="difficulty">By Difficulty</TabsTrigger>
+            <TabsTrigger value="submissions">Submissions</TabsTrigger>
+            <TabsTrigger value="streaks">Streaks</TabsTrigger>
+            <TabsTrigger value="contest">Contest</TabsTrigger>
+            <TabsTrigger value="challenge">Challenge</TabsTrigger>
+            <TabsTrigger value="daily">Daily</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="problems" className="mt-6">
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+              {filteredData.map((user, index) => (
+                <Card key={user.id}>
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium">
+                      {index + 1}.{" "}
+                      <Link href={profileHref(user.id)} className="hover:underline">
+                        {user.name}
+                      </Link>
+                      <RankMovementIndicator
+                        user={user}
+                        timeRange={timeRange}
+                        metric="problems"
+                      />
+                      <UnreachableBadge user={user} />
+                    </CardTitle>
+                    <Target className="h-4 w-4 text-muted-foreground" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">{user.totalSolved}</div>
+                    <p className="text-xs text-muted-foreground">
+                      problems solved
+                    </p>
+                    <LazySubmissionHeatmap
+                      username={user.id}
+                      now={cacheTimestamp}
+                      compact
+                      className="mt-3"
+                    />
+                    <AchievementBadges
+                      achievements={user.achievements}
+                      limit={MAX_CARD_ACHIEVEMENTS}
+                      className="mt-3"
+                    />
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="difficulty" className="mt-6">
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+              {filteredData.map((user, index) => (
+                <Card key={user.id}>
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium">
+                      {index + 1}.{" "}
+                      <Link href={profileHref(user.id)} className="hover:underline">
+                        {user.name}
+                      </Link>
+                      <RankMovementIndicator
+                        user={user}
+                        timeRange={timeRange}
+                        metric="problems"
+                      />
+                      <UnreachableBadge user={user} />
+                    </CardTitle>
+                    <Code className="h-4 w-4 text-muted-foreground" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="grid gap-1">
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-green-500">Easy:</span>
+                        <span className="font-medium">
+                          {user.problemsByDifficulty.easy}
+                        </span>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-yellow-500">Medium:</span>
+                        <span className="font-medium">
+                          {user.problemsByDifficulty.medium}
+                        </span>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-red-500">Hard:</span>
+                        <span className="font-medium">
+                          {user.problemsByDifficulty.hard}
+                        </span>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="points" className="mt-6">
+            {scoring && (
+              <p className="mb-4 text-center text-sm text-muted-foreground">
+                Scored with <span className="font-medium">{scoring.name}</span>
+                : {describeWeights(scoring)}
+              </p>
+            )}
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+              {rankUsers(filteredData, "points")
+                .map((user, index) => (
+                  <Card key={user.id}>
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                      <CardTitle className="text-sm font-medium">
+                        {index + 1}.{" "}
+                        <Link href={profileHref(user.id)} className="hover:underline">
+                          {user.name}
+                        </Link>
+                        <RankMovementIndicator
+                          user={user}
+                          timeRange={timeRange}
+                          metric="points"
+                        />
+                        <UnreachableBadge user={user} />
+                      </CardTitle>
+                      <LineChart className="h-4 w-4 text-muted-foreground" />
+                    </CardHeader>
+                    <CardContent>
+                      <div className="text-2xl font-bold">
+                        {user.points ?? 0}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        difficulty points
+                      </p>
+                    </CardContent>
+                  </Card>
+                ))}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="submissions" className="mt-6">
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+              {rankUsers(filteredData, "submissions")
+                .map((user, index) => (
+                  <Card key={user.id}>
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                      <CardTitle className="text-sm font-medium">
+                        {index + 1}.{" "}
+                        <Link href={profileHref(user.id)} className="hover:underline">
+                          {user.name}
+                        </Link>
+                        <RankMovementIndicator
+                          user={user}
+                          timeRange={timeRange}
+                          metric="submissions"
+                        />
+                        <UnreachableBadge user={user} />
+                      </CardTitle>
+                      <Calendar className="h-4 w-4 text-muted-foreground" />
+                    </CardHeader>
+                    <CardContent>
+                      <div className="text-2xl font-bold">
+                        {user.submissions}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        total submissions
+                      </p>
+                    </CardContent>
+                  </Card>
+                ))}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="streaks" className="mt-6">
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+              {rankUsers(filteredData, "streaks")
+                .map((user, index) => (
+                  <Card key={user.id}>
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                      <CardTitle className="text-sm font-medium">
+                        {index + 1}.{" "}
+                        <Link href={profileHref(user.id)} className="hover:underline">
+                          {user.name}
+                        </Link>
+                        <RankMovementIndicator
+                          user={user}
+                          timeRange={timeRange}
+                          metric="streaks"
+                        />
+                        <UnreachableBadge user={user} />
+                      </CardTitle>
+                      <Flame className="h-4 w-4 text-muted-foreground" />
+                    </CardHeader>
+                    <CardContent>
+                      <div className="grid gap-1">
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm">Current streak:</span>
+                          <span className="font-medium">
+                            {user.streak?.current || 0}
+                          </span>
+                        </div>
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm">Max streak:</span>
+                          <span className="text-2xl font-bold">
+                            {user.streak?.max || 0}
+                          </span>
+                        </div>
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm">Longest ever:</span>
+                          <span className="font-medium">
+                            {user.streak?.longest || user.streak?.max || 0}
+                          </span>
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="contest" className="mt-6 space-y-8">
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+              {[...filteredData]
+                .sort(
+                  (a, b) =>
+                    (b.contest?.rating ?? -1) - (a.contest?.rating ?? -1)
+                )
+                .map((user, index) => (
+                  <Card key={user.id}>
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                      <CardTitle className="text-sm font-medium">
+                        {index + 1}.{" "}
+                        <Link href={profileHref(user.id)} className="hover:underline">
+                          {user.name}
+                        </Link>
+                        {user.contest?.badge && (
+                          <Badge variant="secondary" className="ml-2">
+                            {user.contest.badge}
+                          </Badge>
+                        )}
+                        <UnreachableBadge user={user} />
+                      </CardTitle>
+                      <Swords className="h-4 w-4 text-muted-foreground" />
+                    </CardHeader>
+                    <CardContent>
+                      {user.contest ? (
+                        <>
+                          <div className="text-2xl font-bold">
+                            {Math.round(user.contest.rating)}
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            contest rating · top {user.contest.topPercentage}%
+                          </p>
+                          <div className="mt-2 grid gap-1 text-sm">
+                            <div className="flex items-center justify-between">
+                              <span>Global rank:</span>
+                              <span className="font-medium">
+                                {user.contest.globalRanking.toLocaleString("en-US")}
+                              </span>
+                            </div>
+                            <div className="flex items-center justify-between">
+                              <span>Contests attended:</span>
+                              <span className="font-medium">
+                                {user.contest.attendedContests}
+                              </span>
+                            </div>
+                          </div>
+                          <TrendChart
+                            compact
+                            className="mt-3"
+                            emptyMessage=""
+                            series={[
+                              {
+                                label: "Rating",
+                                points: user.contest.ratingHistory.map(
+                                  (entry) => ({
+                                    date: entry.date,
+                                    value: entry.rating,
+                                  })
+                                ),
+                              },
+                            ]}
+                          />
+                        </>
+                      ) : (
+                        <p className="text-sm text-muted-foreground">
+                          No rated contests yet
+                        </p>
+                      )}
+                    </CardContent>
+                  </Card>
+                ))}
+            </div>
+
+            <section className="space-y-4">
+              <h2 className="text-lg font-semibold">Recent contests</h2>
+              <ContestStandings />
+            </section>
+          </TabsContent>
+
+          <TabsContent value="challenge" className="mt-6">
+            <ChallengeBoard />
+          </TabsContent>
+
+          <TabsContent value="daily" className="mt-6">
+            {daily ? (
+              <DailyStreakBoard board={daily} />
+            ) : (
+              <p className="text-center text-sm text-muted-foreground">
+                The daily question is not available right now.
+              </p>
+            )}
+          </TabsContent>
+        </Tabs>
+      </div>
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { RankingMetric, TimeRange } from "@/lib/types";
+
+function exportHref(params: Record<string, string>) {
+  return `/api/export?${new URLSearchParams(params)}`;
+}
+
+/**
+ * Download links for the leaderboard as currently shown and for the daily history
+ */
+export function ExportMenu({
+  timeRange,
+  metric,
+}: {
+  timeRange: TimeRange;
+  metric: RankingMetric;
+}) {
+  const leaderboard = { type: "leaderboard", range: timeRange, sort: metric };
+  const history = { type: "history", range: timeRange };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline">
+          <Download className="mr-2 h-4 w-4" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Leaderboard</DropdownMenuLabel>
+        <DropdownMenuItem asChild>
+          <a href={exportHref({ ...leaderboard, format: "csv" })} download>
+            CSV
+          </a>
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <a href={exportHref({ ...leaderboard, format: "json" })} download>
+            JSON
+          </a>
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Daily history</DropdownMenuLabel>
+        <DropdownMenuItem asChild>
+          <a href={exportHref({ ...history, format: "csv" })} download>
+            CSV
+          </a>
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <a href={exportHref({ ...history, format: "json" })} download>
+            JSON
+          </a>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { MemberOption } from "@/lib/compare";
+import { cn } from "@/lib/utils";
+
+/**
+ * Picks several members: chosen ones show as removable badges and the
+ * dropdown offers the rest. Radix Select is single-valued, so it is reset
+ * after every pick.
+ */
+export function MemberMultiSelect({
+  members,
+  value,
+  onChange,
+  max,
+  placeholder = "Add a member",
+  className,
+}: {
+  members: MemberOption[];
+  value: string[];
+  onChange: (value: string[]) => void;
+  max?: number;
+  placeholder?: string;
+  className?: string;
+}) {
+  const selected = value
+    .map((id) => members.find((member) => member.id === id))
+    .filter((member): member is MemberOption => member !== undefined);
+  const remaining = members.filter((member) => !value.includes(member.id));
+  const full = max !== undefined && value.length >= max;
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-2", className)}>
+      {selected.map((member) => (
+        <Badge key={member.id} variant="secondary" className="gap-1 py-1">
+          {member.name}
+          <button
+            type="button"
+            className="rounded-full hover:text-destructive"
+            onClick={() => onChange(value.filter((id) => id !== member.id))}
+            aria-label={`Remove ${member.name}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+      <Select
+        value=""
+        onValueChange={(id) => onChange([...value, id])}
+        disabled={full || remaining.length === 0}
+      >
+        <SelectTrigger className="w-[180px]">
+          <SelectValue placeholder={full ? `Up to ${max} members` : placeholder} />
+        </SelectTrigger>
+        <SelectContent>
+          {remaining.map((member) => (
+            <SelectItem key={member.id} value={member.id}>
+              {member.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,309 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+
+type SubmissionCalendar = Record<string, number>;
+
+type HeatmapCell = { day: number; count: number } | null;
+
+const SECONDS_IN_DAY = 24 * 60 * 60;
+const MS_IN_DAY = SECONDS_IN_DAY * 1000;
+const LAST_YEAR = "last";
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+const LEVEL_CLASSES = [
+  "bg-muted",
+  "bg-green-500/25",
+  "bg-green-500/50",
+  "bg-green-500/75",
+  "bg-green-500",
+];
+
+/**
+ * Days since the epoch, in UTC like LeetCode's calendar
+ */
+function utcDay(date: Date) {
+  return Math.floor(date.getTime() / MS_IN_DAY);
+}
+
+function dayToDate(day: number) {
+  return new Date(day * MS_IN_DAY);
+}
+
+function formatDay(day: number) {
+  return dayToDate(day).toLocaleDateString("en-US", {
+    timeZone: "UTC",
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+/**
+ * Intensity 0-4, relative to the busiest day shown
+ */
+function level(count: number, max: number) {
+  if (count <= 0) return 0;
+  return Math.min(4, Math.ceil((count / max) * 4));
+}
+
+/**
+ * Lays the range out as Sunday-first week columns ending on `today`. Days outside the range are null.
+ */
+function buildWeeks(calendar: SubmissionCalendar, range: string, today: number) {
+  const counts = new Map<number, number>();
+  for (const [timestamp, count] of Object.entries(calendar)) {
+    const day = Math.floor(parseInt(timestamp) / SECONDS_IN_DAY);
+    counts.set(day, (counts.get(day) || 0) + count);
+  }
+
+  let start: number;
+  let end: number;
+  if (range === LAST_YEAR) {
+    end = today;
+    start = end - 364;
+  } else {
+    const year = parseInt(range);
+    start = utcDay(new Date(Date.UTC(year, 0, 1)));
+    end = utcDay(new Date(Date.UTC(year, 11, 31)));
+  }
+
+  const gridStart = start - dayToDate(start).getUTCDay();
+  const weeks: HeatmapCell[][] = [];
+  let total = 0;
+  let max = 0;
+
+  for (let weekStart = gridStart; weekStart <= end; weekStart += 7) {
+    const week: HeatmapCell[] = [];
+    for (let day = weekStart; day < weekStart + 7; day++) {
+      if (day < start || day > end) {
+        week.push(null);
+        continue;
+      }
+      const count = counts.get(day) || 0;
+      total += count;
+      max = Math.max(max, count);
+      week.push({ day, count });
+    }
+    weeks.push(week);
+  }
+
+  return { weeks, total, max };
+}
+
+/**
+ * Month name for the week column containing the 1st of a month
+ */
+function monthLabel(week: HeatmapCell[]) {
+  const first = week.find((cell) => cell && dayToDate(cell.day).getUTCDate() === 1);
+  return first ? MONTHS[dayToDate(first.day).getUTCMonth()] : null;
+}
+
+/**
+ * GitHub-style submission heatmap. Shows the last 365 days from `calendar`;
+ * with a `username`, older years can be picked and are loaded on demand.
+ * Pages rendered on the server pass `now`, the time their data was read, so a
+ * cached page hydrates with the same days it was rendered with.
+ */
+export function SubmissionHeatmap({
+  calendar,
+  username,
+  now,
+  compact = false,
+  className,
+}: {
+  calendar: SubmissionCalendar;
+  username?: string;
+  now?: string;
+  compact?: boolean;
+  className?: string;
+}) {
+  const [range, setRange] = useState(LAST_YEAR);
+  const [activeYears, setActiveYears] = useState<number[] | null>(null);
+  const [yearCalendars, setYearCalendars] = useState<Record<string, SubmissionCalendar>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const calendarUrl = (year?: string) =>
+    `/api/users/${encodeURIComponent(username!)}/calendar${year ? `?year=${year}` : ""}`;
+
+  const loadActiveYears = async () => {
+    if (activeYears || !username) return;
+    try {
+      const response = await fetch(calendarUrl());
+      if (!response.ok) throw new Error("Failed to load active years");
+      const data = await response.json();
+      setActiveYears(data.activeYears);
+    } catch {
+      setActiveYears([]);
+    }
+  };
+
+  const selectRange = async (value: string) => {
+    setRange(value);
+    setError(null);
+    if (value === LAST_YEAR || yearCalendars[value]) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch(calendarUrl(value));
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to load calendar");
+      setYearCalendars((current) => ({ ...current, [value]: data.submissionCalendar }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const today = utcDay(now ? new Date(now) : new Date());
+  const shownCalendar = range === LAST_YEAR ? calendar : yearCalendars[range];
+  const { weeks, total, max } = useMemo(
+    () => buildWeeks(shownCalendar ?? {}, range, today),
+    [shownCalendar, range, today]
+  );
+
+  // The current year is always offered, even before the active years have loaded
+  const currentYear = dayToDate(today).getUTCFullYear();
+  const years = [...new Set([currentYear, ...(activeYears ?? [])])].sort((a, b) => b - a);
+
+  const cellSize = compact ? "h-[5px] w-[5px]" : "h-3 w-3";
+  const gap = compact ? "gap-[1px]" : "gap-[3px]";
+
+  return (
+    <div className={cn("grid gap-2", className)}>
+      {!compact && (
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <p className="text-sm text-muted-foreground">
+            {total} submissions {range === LAST_YEAR ? "in the last year" : `in ${range}`}
+          </p>
+          {username && (
+            <Select
+              value={range}
+              onValueChange={selectRange}
+              onOpenChange={(open) => {
+                if (open) loadActiveYears();
+              }}
+            >
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={LAST_YEAR}>Last 365 days</SelectItem>
+                {years.map((year) => (
+                  <SelectItem key={year} value={String(year)}>
+                    {year}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading {range}...
+        </div>
+      ) : error ? (
+        <p className="text-sm text-destructive">{error}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <div className={cn("flex w-max", gap)}>
+            {weeks.map((week, index) => (
+              <div key={index} className={cn("grid", gap)}>
+                {!compact && (
+                  <span className="h-3 w-3 whitespace-nowrap text-[10px] leading-3 text-muted-foreground">
+                    {monthLabel(week)}
+                  </span>
+                )}
+                {week.map((cell, dayIndex) =>
+                  cell ? (
+                    <div
+                      key={dayIndex}
+                      className={cn("rounded-[2px]", cellSize, LEVEL_CLASSES[level(cell.count, max)])}
+                      title={`${cell.count} submission${cell.count === 1 ? "" : "s"} on ${formatDay(cell.day)}`}
+                    />
+                  ) : (
+                    <div key={dayIndex} className={cellSize} />
+                  )
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {!compact && (
+        <div className="flex items-center justify-end gap-1 text-xs text-muted-foreground">
+          Less
+          {LEVEL_CLASSES.map((levelClass) => (
+            <div key={levelClass} className={cn("h-3 w-3 rounded-[2px]", levelClass)} />
+          ))}
+          More
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * A heatmap for a member whose calendar is not loaded yet. The stored calendar is
+ * fetched once the heatmap scrolls into view; until then it shows empty days.
+ */
+export function LazySubmissionHeatmap({
+  username,
+  now,
+  compact = false,
+  className,
+}: {
+  username: string;
+  now?: string;
+  compact?: boolean;
+  className?: string;
+}) {
+  const ref = useRef<HTMLDivElement>(null);
+  const [calendar, setCalendar] = useState<SubmissionCalendar | null>(null);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    let cancelled = false;
+    const observer = new IntersectionObserver((entries) => {
+      if (!entries.some((entry) => entry.isIntersecting)) return;
+      observer.disconnect();
+
+      fetch(`/api/users/${encodeURIComponent(username)}/calendar/recent`)
+        .then((response) => (response.ok ? response.json() : null))
+        .then((data) => {
+          if (!cancelled && data) setCalendar(data.submissionCalendar);
+        })
+        .catch((err) => console.warn(`Could not load the calendar for ${username}:`, err));
+    });
+    observer.observe(element);
+
+    return () => {
+      cancelled = true;
+      observer.disconnect();
+    };
+  }, [username]);
+
+  return (
+    <div ref={ref} className={className}>
+      <SubmissionHeatmap calendar={calendar ?? {}} now={now} compact={compact} />
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { cn } from "@/lib/utils";
+
+export type TrendPoint = {
+  date: string; // YYYY-MM-DD
+  value: number;
+};
+
+export type TrendSeries = {
+  label: string;
+  points: TrendPoint[];
+  className?: string; // stroke colour, e.g. "stroke-primary"
+};
+
+const WIDTH = 600;
+const HEIGHT = 160;
+const PADDING = 4;
+
+function toTime(date: string) {
+  return new Date(`${date}T00:00:00Z`).getTime();
+}
+
+/**
+ * Minimal SVG line chart over dates. Every series shares both axes, and the
+ * y axis always starts at zero. `compact` draws a label-free sparkline
+ * scaled to the data's own range instead.
+ */
+export function TrendChart({
+  series,
+  className,
+  emptyMessage = "Not enough history yet.",
+  compact = false,
+}: {
+  series: TrendSeries[];
+  className?: string;
+  emptyMessage?: string;
+  compact?: boolean;
+}) {
+  const points = series.flatMap((line) => line.points);
+  if (points.length < 2) {
+    return <p className="text-sm text-muted-foreground">{emptyMessage}</p>;
+  }
+
+  const times = points.map((point) => toTime(point.date));
+  const minTime = Math.min(...times);
+  const timeSpan = Math.max(1, Math.max(...times) - minTime);
+  const values = points.map((point) => point.value);
+  const maxValue = Math.max(1, ...values);
+  const minValue = compact ? Math.min(...values) : 0;
+  const valueSpan = Math.max(1, maxValue - minValue);
+
+  const x = (date: string) =>
+    PADDING + ((toTime(date) - minTime) / timeSpan) * (WIDTH - 2 * PADDING);
+  const y = (value: number) =>
+    HEIGHT - PADDING - ((value - minValue) / valueSpan) * (HEIGHT - 2 * PADDING);
+
+  const lines = series.map((line) => (
+    <polyline
+      key={line.label}
+      fill="none"
+      strokeWidth={2}
+      vectorEffect="non-scaling-stroke"
+      className={line.className ?? "stroke-primary"}
+      points={line.points
+        .map((point) => `${x(point.date)},${y(point.value)}`)
+        .join(" ")}
+    >
+      <title>{line.label}</title>
+    </polyline>
+  ));
+
+  if (compact) {
+    return (
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        className={cn("h-10 w-full", className)}
+        role="img"
+      >
+        {lines}
+      </svg>
+    );
+  }
+
+  const firstDate = points.reduce((a, b) => (a.date < b.date ? a : b)).date;
+  const lastDate = points.reduce((a, b) => (a.date > b.date ? a : b)).date;
+
+  return (
+    <div className={cn("grid gap-1", className)}>
+      <div className="flex justify-end text-xs text-muted-foreground">
+        max {maxValue}
+      </div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        className="h-40 w-full rounded-md border bg-muted/30"
+        role="img"
+      >
+        {lines}
+      </svg>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{firstDate}</span>
+        <span>{lastDate}</span>
+      </div>
+    </div>
+  );
+}
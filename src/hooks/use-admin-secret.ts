@@ -0,0 +1,39 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+const STORAGE_KEY = "leaderboard-admin-secret";
+
+/**
+ * Keeps the admin secret for the current browser session and attaches it to requests
+ */
+export function useAdminSecret() {
+  const [secret, setSecretState] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSecretState(sessionStorage.getItem(STORAGE_KEY));
+  }, []);
+
+  const setSecret = useCallback((value: string | null) => {
+    if (value) {
+      sessionStorage.setItem(STORAGE_KEY, value);
+    } else {
+      sessionStorage.removeItem(STORAGE_KEY);
+    }
+    setSecretState(value);
+  }, []);
+
+  const adminFetch = useCallback(
+    (input: string, init: RequestInit = {}) =>
+      fetch(input, {
+        ...init,
+        headers: {
+          ...init.headers,
+          Authorization: `Bearer ${secret}`,
+        },
+      }),
+    [secret]
+  );
+
+  return { secret, setSecret, adminFetch };
+}
@@ -0,0 +1,124 @@
+import { ACHIEVEMENT_MONTH_DAYS, ACHIEVEMENTS, AchievementInput, findAchievement } from '@/lib/achievements'
+import { MS_IN_DAY } from '@/lib/periods'
+import { prisma } from '@/lib/prisma'
+import { findEarliestSnapshots, findSnapshotsAsOf, startOfUtcDay } from '@/lib/snapshots'
+import { UserData } from '@/lib/types'
+
+/**
+ * Medium problems solved since the snapshot a month back, or since the first one
+ */
+async function mediumsInLastMonth(userId: string, medium: number, now: Date): Promise<number> {
+  const monthAgo = new Date(startOfUtcDay(now).getTime() - ACHIEVEMENT_MONTH_DAYS * MS_IN_DAY)
+
+  const [before, earliest] = await Promise.all([
+    findSnapshotsAsOf([userId], monthAgo),
+    findEarliestSnapshots([userId]),
+  ])
+  const baseline = before.get(userId) ?? earliest.get(userId)
+
+  return Math.max(0, medium - (baseline?.mediumCount ?? medium))
+}
+
+/**
+ * Gathers what the achievements are judged on. Run after today's snapshot
+ * and contest data are saved.
+ */
+async function achievementInput(userData: UserData, longestStreak: number, now: Date): Promise<AchievementInput> {
+  const [mediums, ranking] = await Promise.all([
+    mediumsInLastMonth(userData.id, userData.problemsByDifficulty.medium, now),
+    prisma.leetCodeContestRanking.findUnique({ where: { userId: userData.id } }),
+  ])
+
+  return {
+    totalSolved: userData.totalSolved,
+    problemsByDifficulty: userData.problemsByDifficulty,
+    maxStreak: Math.max(longestStreak, userData.streak?.max || 0),
+    mediumsInLastMonth: mediums,
+    attendedContests: ranking?.attendedContests ?? 0,
+  }
+}
+
+/**
+ * What the achievements were judged on before a refresh, from the stored row and
+ * contest ranking. Null for members never fetched. Read it before saving the new data.
+ */
+export async function storedAchievementInput(userId: string, now = new Date()): Promise<AchievementInput | null> {
+  const [cachedUser, ranking] = await Promise.all([
+    prisma.leetCodeUser.findUnique({ where: { id: userId } }),
+    prisma.leetCodeContestRanking.findUnique({ where: { userId } }),
+  ])
+  if (!cachedUser) return null
+
+  return {
+    totalSolved: cachedUser.totalSolved,
+    problemsByDifficulty: {
+      easy: cachedUser.easyCount,
+      medium: cachedUser.mediumCount,
+      hard: cachedUser.hardCount,
+    },
+    maxStreak: Math.max(cachedUser.longestStreak, cachedUser.maxStreak),
+    mediumsInLastMonth: await mediumsInLastMonth(userId, cachedUser.mediumCount, now),
+    attendedContests: ranking?.attendedContests ?? 0,
+  }
+}
+
+/**
+ * Records every achievement the user has newly reached. Unlocks are kept even if the numbers later drop.
+ * Returns the ids worth announcing: unlocks that `previous`, the numbers from before this refresh,
+ * already qualified for are backfills (the first refresh after achievements shipped, or a member's
+ * first fetch) and are stored without being returned.
+ */
+export async function unlockAchievements(
+  userData: UserData,
+  longestStreak: number,
+  previous: AchievementInput | null,
+  now = new Date()
+): Promise<string[]> {
+  const input = await achievementInput(userData, longestStreak, now)
+
+  const existing = await prisma.achievementUnlock.findMany({
+    where: { userId: userData.id },
+    select: { achievementId: true },
+  })
+  const unlocked = new Set(existing.map(unlock => unlock.achievementId))
+
+  const newlyUnlocked = ACHIEVEMENTS
+    .filter(achievement => !unlocked.has(achievement.id) && achievement.isUnlocked(input))
+    .map(achievement => achievement.id)
+  if (newlyUnlocked.length === 0) return []
+
+  await prisma.achievementUnlock.createMany({
+    data: newlyUnlocked.map(achievementId => ({ userId: userData.id, achievementId, unlockedAt: now })),
+    skipDuplicates: true,
+  })
+
+  if (!previous) return []
+  return newlyUnlocked.filter(achievementId => !findAchievement(achievementId)?.isUnlocked(previous))
+}
+
+/**
+ * Adds each user's unlocked achievements, oldest first
+ */
+export async function attachAchievements(users: UserData[]): Promise<UserData[]> {
+  if (users.length === 0) return users
+
+  try {
+    const unlocks = await prisma.achievementUnlock.findMany({
+      where: { userId: { in: users.map(user => user.id) } },
+      orderBy: { unlockedAt: 'asc' },
+    })
+
+    return users.map(user => ({
+      ...user,
+      achievements: unlocks
+        .filter(unlock => unlock.userId === user.id)
+        .map(unlock => ({
+          achievementId: unlock.achievementId,
+          unlockedAt: unlock.unlockedAt.toISOString(),
+        })),
+    }))
+  } catch (error) {
+    console.error('Failed to load achievements:', error)
+    return users
+  }
+}
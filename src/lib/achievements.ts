@@ -0,0 +1,89 @@
+import { ProblemsByDifficulty } from '@/lib/types'
+
+// Shared by the server, which unlocks achievements, and the client, which shows them
+
+/**
+ * What an achievement is judged on, as of the latest refresh
+ */
+export interface AchievementInput {
+  totalSolved: number;
+  problemsByDifficulty: ProblemsByDifficulty;
+  maxStreak: number; // longest streak seen so far
+  mediumsInLastMonth: number;
+  attendedContests: number;
+}
+
+export interface Achievement {
+  id: string;
+  name: string;
+  description: string;
+  isUnlocked: (input: AchievementInput) => boolean;
+}
+
+// The window "in a month" achievements count over
+export const ACHIEVEMENT_MONTH_DAYS = 30
+
+function solved(count: number): Achievement {
+  return {
+    id: `solved-${count}`,
+    name: `${count} Solved`,
+    description: `Solve ${count} problems`,
+    isUnlocked: input => input.totalSolved >= count,
+  }
+}
+
+function streak(days: number): Achievement {
+  return {
+    id: `streak-${days}`,
+    name: `${days}-Day Streak`,
+    description: `Submit on ${days} days in a row`,
+    isUnlocked: input => input.maxStreak >= days,
+  }
+}
+
+/**
+ * Every achievement, roughly from easiest to hardest. Ids are stored with
+ * each unlock, so never rename one.
+ */
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: 'first-hard',
+    name: 'First Hard',
+    description: 'Solve a Hard problem',
+    isUnlocked: input => input.problemsByDifficulty.hard >= 1,
+  },
+  streak(7),
+  solved(100),
+  {
+    id: 'first-contest',
+    name: 'Contender',
+    description: 'Take part in a rated contest',
+    isUnlocked: input => input.attendedContests >= 1,
+  },
+  solved(250),
+  streak(30),
+  {
+    id: 'medium-month-50',
+    name: 'Medium Month',
+    description: `Solve 50 Medium problems in ${ACHIEVEMENT_MONTH_DAYS} days`,
+    isUnlocked: input => input.mediumsInLastMonth >= 50,
+  },
+  {
+    id: 'hard-50',
+    name: 'Hard Hitter',
+    description: 'Solve 50 Hard problems',
+    isUnlocked: input => input.problemsByDifficulty.hard >= 50,
+  },
+  solved(500),
+  streak(100),
+  solved(1000),
+]
+
+const achievementsById = new Map(ACHIEVEMENTS.map(achievement => [achievement.id, achievement]))
+
+/**
+ * Looks up a definition; unknown ids come from achievements that have since been removed
+ */
+export function findAchievement(id: string): Achievement | undefined {
+  return achievementsById.get(id)
+}
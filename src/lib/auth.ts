@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server"
+
+/**
+ * Checks the request for `Authorization: Bearer <secret>`, with the secret read from the named env var.
+ * Returns an error response when the caller is not allowed, or null when it is.
+ */
+function requireBearerSecret(request: Request, envName: string, label: string): NextResponse | null {
+  const secret = process.env[envName]
+
+  if (!secret) {
+    return NextResponse.json(
+      { error: `${label} is disabled: ${envName} is not configured` },
+      { status: 503 }
+    )
+  }
+
+  const header = request.headers.get("authorization")
+  if (header !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  return null
+}
+
+/**
+ * Guards the admin API with ADMIN_SECRET
+ */
+export function requireAdmin(request: Request): NextResponse | null {
+  return requireBearerSecret(request, "ADMIN_SECRET", "Admin API")
+}
+
+/**
+ * Guards scheduled jobs with CRON_SECRET (the header Vercel Cron sends automatically)
+ */
+export function requireCronSecret(request: Request): NextResponse | null {
+  return requireBearerSecret(request, "CRON_SECRET", "Scheduled refresh")
+}
@@ -0,0 +1,195 @@
+import { Challenge } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { resolveProblems } from '@/lib/problems'
+import type { AcceptedSubmission } from '@/lib/submissions'
+import { ChallengeMemberProgress, ChallengeStanding } from '@/lib/types'
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+
+// Keeps one challenge from turning into a whole problem list
+export const MAX_CHALLENGE_PROBLEMS = 20
+
+export interface ChallengeFields {
+  title?: string;
+  startsAt?: Date;
+  endsAt?: Date;
+  problemSlugs?: string[];
+}
+
+/**
+ * Accepts a bare slug or a problem URL such as https://leetcode.com/problems/two-sum/
+ */
+export function normalizeProblemSlug(value: string): string {
+  const trimmed = value.trim().toLowerCase()
+  const fromUrl = trimmed.match(/\/problems\/([^/?#]+)/)
+  return fromUrl ? fromUrl[1] : trimmed
+}
+
+/**
+ * Validates the editable fields of a challenge. With `partial`, missing fields are left out
+ * instead of rejected. Returns an error message for the first invalid field.
+ */
+export function parseChallengeFields(
+  body: Record<string, unknown>,
+  { partial }: { partial: boolean }
+): { fields: ChallengeFields } | { error: string } {
+  const fields: ChallengeFields = {}
+
+  if (body.title !== undefined || !partial) {
+    if (typeof body.title !== 'string' || !body.title.trim()) {
+      return { error: 'title must be a non-empty string' }
+    }
+    fields.title = body.title.trim()
+  }
+
+  for (const key of ['startsAt', 'endsAt'] as const) {
+    if (body[key] === undefined && partial) continue
+    const date = typeof body[key] === 'string' ? new Date(body[key]) : undefined
+    if (!date || isNaN(date.getTime())) {
+      return { error: `${key} must be an ISO date string` }
+    }
+    fields[key] = date
+  }
+
+  if (body.problemSlugs !== undefined || !partial) {
+    if (!Array.isArray(body.problemSlugs) || !body.problemSlugs.every(slug => typeof slug === 'string')) {
+      return { error: 'problemSlugs must be a list of problem slugs' }
+    }
+    const slugs = [...new Set((body.problemSlugs as string[]).map(normalizeProblemSlug).filter(Boolean))]
+    if (slugs.length === 0 || slugs.length > MAX_CHALLENGE_PROBLEMS) {
+      return { error: `A challenge needs between 1 and ${MAX_CHALLENGE_PROBLEMS} problems` }
+    }
+    const invalid = slugs.filter(slug => !SLUG_PATTERN.test(slug))
+    if (invalid.length > 0) {
+      return { error: `Not problem slugs: ${invalid.join(', ')}` }
+    }
+    fields.problemSlugs = slugs
+  }
+
+  return { fields }
+}
+
+/**
+ * Slugs LeetCode does not know. Known problems are cached along the way for the challenge tab.
+ */
+export async function findUnknownProblems(slugs: string[]): Promise<string[]> {
+  const problems = await resolveProblems(slugs)
+  return slugs.filter(slug => !problems.has(slug))
+}
+
+function isInWindow(challenge: Challenge, date: Date): boolean {
+  return date >= challenge.startsAt && date <= challenge.endsAt
+}
+
+/**
+ * Records accepted submissions that count towards a challenge. Unlike the solved
+ * problems list, this also catches problems the user had already solved before
+ * the challenge started.
+ */
+export async function recordChallengeSolves(username: string, accepted: AcceptedSubmission[]): Promise<void> {
+  if (accepted.length === 0) return
+
+  const times = accepted.map(submission => submission.timestamp.getTime())
+  const challenges = await prisma.challenge.findMany({
+    where: {
+      startsAt: { lte: new Date(Math.max(...times)) },
+      endsAt: { gte: new Date(Math.min(...times)) },
+    },
+  })
+
+  const rows = challenges.flatMap(challenge => {
+    // Earliest in-window solve of each challenge problem
+    const firstSolved = new Map<string, Date>()
+    for (const { slug, timestamp } of accepted) {
+      if (!challenge.problemSlugs.includes(slug) || !isInWindow(challenge, timestamp)) continue
+      const existing = firstSolved.get(slug)
+      if (!existing || timestamp < existing) firstSolved.set(slug, timestamp)
+    }
+
+    return [...firstSolved.entries()].map(([problemSlug, solvedAt]) => ({
+      challengeId: challenge.id,
+      userId: username,
+      problemSlug,
+      solvedAt,
+    }))
+  })
+  if (rows.length === 0) return
+
+  // An earlier row came from an earlier refresh, so it is the first solve; keep it
+  await prisma.challengeSolve.createMany({ data: rows, skipDuplicates: true })
+}
+
+/**
+ * Every challenge, newest first, with the progress of the given users.
+ * `names` maps user ids to the names shown on the dashboard.
+ *
+ * Besides recorded challenge solves, first-time solves from the solved problems
+ * list count too, so challenges created after the fact still pick them up.
+ */
+export async function getChallengeStandings(names: Map<string, string>): Promise<ChallengeStanding[]> {
+  const userIds = [...names.keys()]
+
+  const challenges = await prisma.challenge.findMany({
+    orderBy: { startsAt: 'desc' },
+    include: { solves: { where: { userId: { in: userIds } } } },
+  })
+  if (challenges.length === 0) return []
+
+  const slugs = [...new Set(challenges.flatMap(challenge => challenge.problemSlugs))]
+  const [problems, submissions] = await Promise.all([
+    prisma.leetCodeProblem.findMany({ where: { slug: { in: slugs } } }),
+    prisma.leetCodeSubmission.findMany({
+      where: { userId: { in: userIds }, problemSlug: { in: slugs }, accepted: true },
+      select: { userId: true, problemSlug: true, timestamp: true },
+    }),
+  ])
+  const problemsBySlug = new Map(problems.map(problem => [problem.slug, problem]))
+
+  return challenges.map(challenge => {
+    const solves = [
+      ...challenge.solves.map(solve => ({ ...solve, timestamp: solve.solvedAt })),
+      ...submissions,
+    ].filter(solve => challenge.problemSlugs.includes(solve.problemSlug) && isInWindow(challenge, solve.timestamp))
+
+    const members: ChallengeMemberProgress[] = userIds.map(userId => {
+      const firstSolved = new Map<string, Date>()
+      for (const solve of solves) {
+        if (solve.userId !== userId) continue
+        const existing = firstSolved.get(solve.problemSlug)
+        if (!existing || solve.timestamp < existing) firstSolved.set(solve.problemSlug, solve.timestamp)
+      }
+
+      const solvedTimes = [...firstSolved.values()].map(date => date.getTime())
+      const finished = firstSolved.size === challenge.problemSlugs.length
+
+      return {
+        userId,
+        name: names.get(userId)!,
+        solved: challenge.problemSlugs
+          .filter(slug => firstSolved.has(slug))
+          .map(slug => ({ slug, solvedAt: firstSolved.get(slug)!.toISOString() })),
+        finishedAt: finished ? new Date(Math.max(...solvedTimes)).toISOString() : null,
+      }
+    })
+
+    // Finishers in finishing order, then everyone else by problems solved
+    members.sort((a, b) => {
+      if (a.finishedAt && b.finishedAt) return a.finishedAt.localeCompare(b.finishedAt)
+      if (a.finishedAt || b.finishedAt) return a.finishedAt ? -1 : 1
+      return b.solved.length - a.solved.length
+    })
+
+    return {
+      id: challenge.id,
+      title: challenge.title,
+      startsAt: challenge.startsAt.toISOString(),
+      endsAt: challenge.endsAt.toISOString(),
+      problems: challenge.problemSlugs.map(slug => ({
+        slug,
+        title: problemsBySlug.get(slug)?.title ?? slug,
+        difficulty: problemsBySlug.get(slug)?.difficulty ?? null,
+      })),
+      members,
+    }
+  })
+}
@@ -0,0 +1,93 @@
+import { attachContestStats } from '@/lib/contests'
+import { findCachedUsers, toRosterUserData } from '@/lib/leaderboard'
+import { prisma } from '@/lib/prisma'
+import { getActiveRoster } from '@/lib/roster'
+import { attachPoints, getActiveScoringFormula } from '@/lib/scoring-presets'
+import { UserData } from '@/lib/types'
+
+// Each compared member needs a distinguishable line colour
+export const MAX_COMPARED_MEMBERS = 6
+
+export interface MemberOption {
+  id: string;
+  name: string;
+}
+
+export interface SolvedHistoryPoint {
+  date: string; // YYYY-MM-DD, UTC
+  totalSolved: number;
+}
+
+export interface Comparison {
+  members: MemberOption[]; // every active member with cached data, for the picker
+  users: UserData[]; // the compared members, in the order requested
+  history: Record<string, SolvedHistoryPoint[]>; // by user id, oldest first
+  unknown: string[]; // requested names that are not active members
+  generatedAt: string; // time ranges end here, so the rendered page hydrates the same
+}
+
+/**
+ * Parses `?users=a,b,c`, dropping blanks and duplicates
+ */
+export function parseCompareUsers(value: string | string[] | undefined): string[] {
+  const raw = Array.isArray(value) ? value.join(',') : value ?? ''
+  const seen = new Set<string>()
+  const usernames: string[] = []
+
+  for (const username of raw.split(',').map(name => name.trim()).filter(Boolean)) {
+    if (seen.has(username.toLowerCase())) continue
+    seen.add(username.toLowerCase())
+    usernames.push(username)
+  }
+
+  return usernames.slice(0, MAX_COMPARED_MEMBERS)
+}
+
+/**
+ * Loads cached data and the full snapshot history of the requested members
+ */
+export async function getComparison(usernames: string[], now = new Date()): Promise<Comparison> {
+  const roster = await getActiveRoster()
+  const cachedUsers = await findCachedUsers(roster.map(user => user.username))
+
+  const members = attachPoints(
+    await attachContestStats(toRosterUserData(roster, cachedUsers)),
+    await getActiveScoringFormula()
+  )
+
+  const users: UserData[] = []
+  const unknown: string[] = []
+  for (const username of usernames) {
+    const user = members.find(member => member.id.toLowerCase() === username.toLowerCase())
+    if (user) {
+      users.push(user)
+    } else {
+      unknown.push(username)
+    }
+  }
+
+  const snapshots = users.length > 0
+    ? await prisma.userStatSnapshot.findMany({
+        where: { userId: { in: users.map(user => user.id) } },
+        orderBy: { date: 'asc' },
+        select: { userId: true, date: true, totalSolved: true },
+      })
+    : []
+
+  const history: Record<string, SolvedHistoryPoint[]> = {}
+  for (const user of users) history[user.id] = []
+  for (const snapshot of snapshots) {
+    history[snapshot.userId].push({
+      date: snapshot.date.toISOString().slice(0, 10),
+      totalSolved: snapshot.totalSolved,
+    })
+  }
+
+  return {
+    members: members.map(member => ({ id: member.id, name: member.name })),
+    users,
+    history,
+    unknown,
+    generatedAt: now.toISOString(),
+  }
+}
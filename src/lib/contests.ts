@@ -0,0 +1,149 @@
+import { leetcodeLimiter } from '@/lib/fetch-queue'
+import leetcode from '@/lib/leetcode'
+import { prisma } from '@/lib/prisma'
+import { ContestStanding, UserData } from '@/lib/types'
+
+export const DEFAULT_CONTEST_STANDINGS_LIMIT = 10
+export const MAX_CONTEST_STANDINGS_LIMIT = 50
+
+/**
+ * Stores a user's contest rating and every contest they attended.
+ * LeetCode lists every contest since the user's first one, so skipped contests are dropped.
+ */
+export async function ingestContestInfo(username: string): Promise<void> {
+  await leetcodeLimiter.take()
+  const { userContestRanking, userContestRankingHistory } = await leetcode.contestInfo(username)
+
+  if (!userContestRanking) {
+    // Never entered a rated contest
+    await prisma.leetCodeContestRanking.deleteMany({ where: { userId: username } })
+    return
+  }
+
+  const ranking = {
+    rating: userContestRanking.rating,
+    globalRanking: userContestRanking.globalRanking,
+    totalParticipants: userContestRanking.totalParticipants,
+    topPercentage: userContestRanking.topPercentage,
+    attendedContests: userContestRanking.attendedContestsCount,
+    badge: userContestRanking.badge?.name ?? null,
+  }
+
+  await prisma.leetCodeContestRanking.upsert({
+    where: { userId: username },
+    update: ranking,
+    create: { userId: username, ...ranking },
+  })
+
+  const attended = (userContestRankingHistory ?? []).filter(entry => entry.attended)
+  if (attended.length === 0) return
+
+  await prisma.leetCodeContest.createMany({
+    data: attended.map(entry => ({
+      title: entry.contest.title,
+      startTime: new Date(entry.contest.startTime * 1000),
+    })),
+    skipDuplicates: true,
+  })
+
+  // Results are final once LeetCode publishes them, so existing rows are left alone
+  await prisma.leetCodeContestResult.createMany({
+    data: attended.map(entry => ({
+      userId: username,
+      contestTitle: entry.contest.title,
+      ranking: entry.ranking,
+      rating: entry.rating,
+      problemsSolved: entry.problemsSolved,
+      totalProblems: entry.totalProblems,
+      finishTimeSeconds: entry.finishTimeInSeconds,
+      trendDirection: entry.trendDirection,
+    })),
+    skipDuplicates: true,
+  })
+}
+
+/**
+ * Adds each user's contest rating and rating history, when they have one
+ */
+export async function attachContestStats(users: UserData[]): Promise<UserData[]> {
+  if (users.length === 0) return users
+
+  const userIds = users.map(user => user.id)
+
+  try {
+    const [rankings, results] = await Promise.all([
+      prisma.leetCodeContestRanking.findMany({
+        where: { userId: { in: userIds } },
+      }),
+      prisma.leetCodeContestResult.findMany({
+        where: { userId: { in: userIds } },
+        orderBy: { contest: { startTime: 'asc' } },
+        select: { userId: true, rating: true, contest: { select: { startTime: true } } },
+      }),
+    ])
+
+    const rankingByUser = new Map(rankings.map(ranking => [ranking.userId, ranking]))
+
+    return users.map(user => {
+      const ranking = rankingByUser.get(user.id)
+      if (!ranking) return user
+
+      return {
+        ...user,
+        contest: {
+          rating: ranking.rating,
+          globalRanking: ranking.globalRanking,
+          topPercentage: ranking.topPercentage,
+          attendedContests: ranking.attendedContests,
+          badge: ranking.badge,
+          ratingHistory: results
+            .filter(result => result.userId === user.id)
+            .map(result => ({
+              date: result.contest.startTime.toISOString().slice(0, 10),
+              rating: result.rating,
+            })),
+        },
+      }
+    })
+  } catch (error) {
+    console.error('Failed to load contest data:', error)
+    return users
+  }
+}
+
+/**
+ * The most recent contests any of the given users attended, with their placements.
+ * `names` maps user ids to the names shown on the dashboard.
+ */
+export async function getContestStandings(
+  names: Map<string, string>,
+  limit = DEFAULT_CONTEST_STANDINGS_LIMIT
+): Promise<ContestStanding[]> {
+  const userIds = [...names.keys()]
+
+  const contests = await prisma.leetCodeContest.findMany({
+    where: { results: { some: { userId: { in: userIds } } } },
+    orderBy: { startTime: 'desc' },
+    take: limit,
+    include: {
+      results: {
+        where: { userId: { in: userIds } },
+        orderBy: { ranking: 'asc' },
+      },
+    },
+  })
+
+  return contests.map(contest => ({
+    title: contest.title,
+    startTime: contest.startTime.toISOString(),
+    results: contest.results.map(result => ({
+      userId: result.userId,
+      name: names.get(result.userId) ?? result.userId,
+      ranking: result.ranking,
+      rating: result.rating,
+      problemsSolved: result.problemsSolved,
+      totalProblems: result.totalProblems,
+      finishTimeSeconds: result.finishTimeSeconds,
+    })),
+  }))
+}
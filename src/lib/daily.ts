@@ -0,0 +1,134 @@
+import { DailyQuestion } from '@prisma/client'
+import { leetcodeLimiter } from '@/lib/fetch-queue'
+import leetcode from '@/lib/leetcode'
+import { MS_IN_DAY } from '@/lib/periods'
+import { prisma } from '@/lib/prisma'
+import { startOfUtcDay } from '@/lib/snapshots'
+import type { AcceptedSubmission } from '@/lib/submissions'
+import { DailyBoard } from '@/lib/types'
+
+function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Fetches today's daily question from LeetCode unless it is already stored.
+ * Called by refresh runs; the dashboard only reads the stored row.
+ * The daily changes at midnight UTC, so it is stored under the current UTC day.
+ */
+export async function storeDailyQuestion(now = new Date()): Promise<DailyQuestion> {
+  const date = startOfUtcDay(now)
+  const cached = await prisma.dailyQuestion.findUnique({ where: { date } })
+  if (cached) return cached
+
+  await leetcodeLimiter.take()
+  const { question } = await leetcode.daily()
+  const data = {
+    slug: question.titleSlug,
+    title: question.title,
+    difficulty: question.difficulty,
+  }
+
+  return prisma.dailyQuestion.upsert({
+    where: { date },
+    update: data,
+    create: { date, ...data },
+  })
+}
+
+/**
+ * Records the days on which the user solved that day's daily question.
+ * Only days whose daily has been stored can be matched.
+ */
+export async function recordDailySolves(username: string, accepted: AcceptedSubmission[]): Promise<void> {
+  if (accepted.length === 0) return
+
+  const days = [...new Set(accepted.map(submission => toDay(submission.timestamp)))]
+  const dailies = await prisma.dailyQuestion.findMany({
+    where: { date: { in: days.map(day => new Date(day)) } },
+  })
+
+  const rows = dailies.flatMap(daily => {
+    const day = toDay(daily.date)
+    const solves = accepted
+      .filter(submission => submission.slug === daily.slug && toDay(submission.timestamp) === day)
+      .map(submission => submission.timestamp.getTime())
+    if (solves.length === 0) return []
+
+    return [{ userId: username, date: daily.date, solvedAt: new Date(Math.min(...solves)) }]
+  })
+  if (rows.length === 0) return
+
+  await prisma.dailySolve.createMany({ data: rows, skipDuplicates: true })
+}
+
+/**
+ * Consecutive dailies solved. Like submission streaks, the current one
+ * survives until the end of the day after the last solved daily.
+ */
+export function dailyStreak(solvedDays: Set<string>, today: Date): { current: number; best: number } {
+  const dayBefore = (day: string) => toDay(new Date(new Date(day).getTime() - MS_IN_DAY))
+
+  let best = 0
+  for (const day of solvedDays) {
+    // Only count runs from their first day
+    if (solvedDays.has(dayBefore(day))) continue
+    let length = 0
+    let next = day
+    while (solvedDays.has(next)) {
+      length++
+      next = toDay(new Date(new Date(next).getTime() + MS_IN_DAY))
+    }
+    best = Math.max(best, length)
+  }
+
+  let current = 0
+  let day = solvedDays.has(toDay(today)) ? toDay(today) : dayBefore(toDay(today))
+  while (solvedDays.has(day)) {
+    current++
+    day = dayBefore(day)
+  }
+
+  return { current, best }
+}
+
+/**
+ * Today's daily with every given user's status and daily streak, best streaks first.
+ * `names` maps user ids to the names shown on the dashboard.
+ * Only reads the database; null until a refresh run has stored today's daily.
+ */
+export async function getDailyBoard(names: Map<string, string>, now = new Date()): Promise<DailyBoard | null> {
+  const question = await prisma.dailyQuestion.findUnique({ where: { date: startOfUtcDay(now) } })
+  if (!question) return null
+
+  const userIds = [...names.keys()]
+
+  const solves = await prisma.dailySolve.findMany({
+    where: { userId: { in: userIds } },
+    select: { userId: true, date: true, solvedAt: true },
+  })
+
+  const members = userIds.map(userId => {
+    const own = solves.filter(solve => solve.userId === userId)
+    const today = own.find(solve => solve.date.getTime() === question.date.getTime())
+
+    return {
+      userId,
+      name: names.get(userId)!,
+      solvedAt: today ? today.solvedAt.toISOString() : null,
+      streak: dailyStreak(new Set(own.map(solve => toDay(solve.date))), question.date),
+    }
+  })
+
+  members.sort((a, b) => b.streak.current - a.streak.current || b.streak.best - a.streak.best)
+
+  return {
+    question: {
+      date: toDay(question.date),
+      slug: question.slug,
+      title: question.title,
+      difficulty: question.difficulty,
+    },
+    members,
+  }
+}
@@ -0,0 +1,95 @@
+import { attachAchievements } from '@/lib/achievement-unlocks'
+import { attachContestStats } from '@/lib/contests'
+import { applyDisplayName, findCachedUsers, loadCachedUsers, toLeaderboardUser, toUserData } from '@/lib/leaderboard'
+import { attachRankMovement } from '@/lib/movement'
+import { prisma } from '@/lib/prisma'
+import { getActiveRoster, isUnreachable, toUnreachableUser } from '@/lib/roster'
+import { ScoringFormula } from '@/lib/scoring'
+import { attachPoints, getActiveScoringFormula } from '@/lib/scoring-presets'
+import { attachPeriodStats } from '@/lib/snapshots'
+import { ErrorData, LeaderboardUser, UnreachableUser } from '@/lib/types'
+
+/**
+ * Everything the dashboard shows about the members, as served by /api/leetcode
+ */
+export interface DashboardData {
+  users: LeaderboardUser[];
+  scoring: ScoringFormula;
+  stale?: string[]; // members due for a refresh
+  unreachable?: UnreachableUser[];
+  errors: ErrorData[];
+  fromCache: boolean;
+  emergency?: boolean; // the normal path failed and only cached numbers could be read
+  timestamp: string;
+}
+
+/**
+ * Reads the leaderboard from the database; /api/cron/refresh keeps it up to date.
+ * If that fails, falls back to the bare cached rows with the error attached.
+ * Throws only when nothing can be read at all.
+ */
+export async function getDashboardData(): Promise<DashboardData> {
+  try {
+    // Read the roster and note which members are due for a refresh
+    const roster = await getActiveRoster()
+    const { cachedUsers, usersToRefresh } = await loadCachedUsers(roster)
+    const scoring = await getActiveScoringFormula()
+    const users = attachPoints(
+      await attachAchievements(
+        await attachContestStats(await attachPeriodStats(cachedUsers))
+      ),
+      scoring
+    )
+
+    return {
+      users: (await attachRankMovement(users, scoring)).map(toLeaderboardUser),
+      scoring,
+      stale: usersToRefresh.length > 0 ? usersToRefresh : undefined,
+      unreachable: roster.filter(isUnreachable).map(toUnreachableUser),
+      errors: [],
+      fromCache: true,
+      timestamp: new Date().toISOString(),
+    }
+  } catch (error) {
+    console.error('Failed to load the leaderboard:', error)
+
+    // Log the error
+    await prisma.fetchLog.create({
+      data: {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    })
+
+    // Try to return any cached data we might have, even if it's old
+    try {
+      const roster = await getActiveRoster()
+      const oldCache = await findCachedUsers(roster.map(user => user.username))
+      if (oldCache.size > 0) {
+        const formattedCache = [...oldCache.values()].map(user => applyDisplayName(toUserData(user), roster))
+        const scoring = await getActiveScoringFormula()
+
+        return {
+          users: attachPoints(
+            await attachAchievements(
+              await attachContestStats(await attachPeriodStats(formattedCache))
+            ),
+            scoring
+          ).map(toLeaderboardUser),
+          scoring,
+          errors: [{
+            username: 'SYSTEM',
+            error: 'Error occurred, showing cached data: ' + (error instanceof Error ? error.message : String(error))
+          }],
+          fromCache: true,
+          emergency: true,
+          timestamp: new Date().toISOString(),
+        }
+      }
+    } catch (cacheError) {
+      console.error('Failed to retrieve emergency cache:', cacheError)
+    }
+
+    throw error
+  }
+}
@@ -0,0 +1,340 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { findCachedUsers, toRosterUserData } from '@/lib/leaderboard'
+import { createMailTransport } from '@/lib/mailer'
+import { attachRankMovement } from '@/lib/movement'
+import { MS_IN_DAY, PERIOD_DAYS } from '@/lib/periods'
+import { prisma } from '@/lib/prisma'
+import { rankUsers } from '@/lib/ranking'
+import { getActiveRoster } from '@/lib/roster'
+import { attachPoints, getActiveScoringFormula } from '@/lib/scoring-presets'
+import { attachPeriodStats } from '@/lib/snapshots'
+
+// Entries per digest section
+const DIGEST_SECTION_SIZE = 5
+
+export interface DigestMember {
+  userId: string;
+  name: string;
+  value: number;
+}
+
+/**
+ * A week of the leaderboard, built from stored data only
+ */
+export interface Digest {
+  periodStart: string;
+  periodEnd: string;
+  topSolvers: DigestMember[]; // problems solved this week
+  climbers: DigestMember[]; // places gained in the problems ranking
+  newHards: { userId: string; name: string; title: string; slug: string }[];
+  streakLeaders: DigestMember[]; // current streak in days
+  inactive: { userId: string; name: string }[]; // no submissions all week
+}
+
+export interface DigestLinks {
+  dashboard: string;
+  unsubscribe?: string;
+}
+
+export interface DigestReport {
+  dryRun: boolean;
+  subject: string;
+  recipients: string[]; // usernames
+  sent: string[];
+  failed: { username: string; error: string }[];
+}
+
+/**
+ * Collects the past week's highlights
+ */
+export async function buildDigest(now = new Date()): Promise<Digest> {
+  const periodStart = new Date(now.getTime() - PERIOD_DAYS.week * MS_IN_DAY)
+
+  const roster = await getActiveRoster()
+  const cachedUsers = await findCachedUsers(roster.map(user => user.username))
+  const scoring = await getActiveScoringFormula()
+  const users = await attachRankMovement(
+    attachPoints(await attachPeriodStats(toRosterUserData(roster, cachedUsers), now), scoring),
+    scoring,
+    now
+  )
+
+  const hardSubmissions = await prisma.leetCodeSubmission.findMany({
+    where: {
+      userId: { in: users.map(user => user.id) },
+      difficulty: 'Hard',
+      timestamp: { gte: periodStart },
+    },
+    orderBy: { timestamp: 'asc' },
+  })
+  const nameOf = new Map(users.map(user => [user.id, user.name]))
+
+  const weekly = users.map(user => ({ ...user, ...user.periods?.week }))
+  const sinceSeconds = Math.floor(periodStart.getTime() / 1000)
+  const submittedThisWeek = (calendar: Record<string, number>) =>
+    Object.entries(calendar).some(([timestamp, count]) => parseInt(timestamp) >= sinceSeconds && count > 0)
+
+  return {
+    periodStart: periodStart.toISOString(),
+    periodEnd: now.toISOString(),
+    topSolvers: rankUsers(weekly, 'problems')
+      .filter(user => user.totalSolved > 0)
+      .slice(0, DIGEST_SECTION_SIZE)
+      .map(user => ({ userId: user.id, name: user.name, value: user.totalSolved })),
+    climbers: users
+      .map(user => ({ user, places: user.rankMovement?.week?.problems }))
+      .filter((entry): entry is { user: typeof entry.user; places: number } =>
+        typeof entry.places === 'number' && entry.places > 0)
+      .sort((a, b) => b.places - a.places)
+      .slice(0, DIGEST_SECTION_SIZE)
+      .map(({ user, places }) => ({ userId: user.id, name: user.name, value: places })),
+    newHards: hardSubmissions.map(submission => ({
+      userId: submission.userId,
+      name: nameOf.get(submission.userId) ?? submission.userId,
+      title: submission.title,
+      slug: submission.problemSlug,
+    })),
+    streakLeaders: users
+      .filter(user => (user.streak?.current || 0) > 0)
+      .sort((a, b) => (b.streak?.current || 0) - (a.streak?.current || 0))
+      .slice(0, DIGEST_SECTION_SIZE)
+      .map(user => ({ userId: user.id, name: user.name, value: user.streak?.current || 0 })),
+    inactive: users
+      .filter(user => !user.unreachable && !submittedThisWeek(user.submissionCalendar))
+      .map(user => ({ userId: user.id, name: user.name })),
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function formatDay(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })
+}
+
+interface DigestSection {
+  title: string;
+  empty: string;
+  lines: string[]; // plain text; escaped for HTML when rendered
+}
+
+function digestSections(digest: Digest): DigestSection[] {
+  return [
+    {
+      title: 'Top solvers',
+      empty: 'Nobody solved a problem this week.',
+      lines: digest.topSolvers.map((member, index) => `${index + 1}. ${member.name}: ${member.value} solved`),
+    },
+    {
+      title: 'Biggest climbers',
+      empty: 'No rank changes this week.',
+      lines: digest.climbers.map(member => `${member.name}: up ${member.value} place${member.value === 1 ? '' : 's'}`),
+    },
+    {
+      title: 'New Hard problems',
+      empty: 'No new Hard problems this week.',
+      lines: digest.newHards.map(hard => `${hard.name}: ${hard.title}`),
+    },
+    {
+      title: 'Streak leaders',
+      empty: 'No active streaks.',
+      lines: digest.streakLeaders.map(member => `${member.name}: ${member.value} days`),
+    },
+    {
+      title: 'Went quiet',
+      empty: 'Everyone submitted something this week.',
+      lines: digest.inactive.map(member => member.name),
+    },
+  ]
+}
+
+/**
+ * The digest as an email: subject, HTML and plain-text bodies
+ */
+export function renderDigest(digest: Digest, links: DigestLinks): { subject: string; html: string; text: string } {
+  const range = `${formatDay(digest.periodStart)} – ${formatDay(digest.periodEnd)}`
+  const subject = `LeetCode leaderboard: week of ${range}`
+  const sections = digestSections(digest)
+
+  const text = [
+    subject,
+    '',
+    ...sections.flatMap(section => [
+      section.title,
+      ...(section.lines.length > 0 ? section.lines.map(line => `  ${line}`) : [`  ${section.empty}`]),
+      '',
+    ]),
+    `Full leaderboard: ${links.dashboard}`,
+    ...(links.unsubscribe ? [`Unsubscribe: ${links.unsubscribe}`] : []),
+  ].join('\n')
+
+  const html = `<!doctype html>
+<html>
+  <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; color: #111; max-width: 560px; margin: 0 auto; padding: 24px;">
+    <h1 style="font-size: 20px;">LeetCode leaderboard</h1>
+    <p style="color: #666;">Week of ${escapeHtml(range)}</p>
+${sections.map(section => `    <h2 style="font-size: 16px; margin-top: 24px;">${escapeHtml(section.title)}</h2>
+${section.lines.length > 0
+    ? `    <ul>\n${section.lines.map(line => `      <li>${escapeHtml(line)}</li>`).join('\n')}\n    </ul>`
+    : `    <p style="color: #666;">${escapeHtml(section.empty)}</p>`}`).join('\n')}
+    <p style="margin-top: 32px;"><a href="${escapeHtml(links.dashboard)}">Open the leaderboard</a></p>
+${links.unsubscribe
+    ? `    <p style="color: #999; font-size: 12px;">You get this because you are on the leaderboard. <a href="${escapeHtml(links.unsubscribe)}" style="color: #999;">Unsubscribe</a></p>\n`
+    : ''}  </body>
+</html>
+`
+
+  return { subject, html, text }
+}
+
+function getDigestSecret(): string {
+  const secret = process.env.DIGEST_SECRET
+  if (!secret) {
+    throw new Error('Digest links are disabled: DIGEST_SECRET is not configured')
+  }
+  return secret
+}
+
+/**
+ * Whether subscribe and unsubscribe links can be signed and checked
+ */
+export function digestLinksEnabled(): boolean {
+  return Boolean(process.env.DIGEST_SECRET)
+}
+
+/**
+ * Signs a member's username for their subscribe and unsubscribe links
+ */
+export function digestToken(username: string): string {
+  return createHmac('sha256', getDigestSecret()).update(username).digest('base64url')
+}
+
+export function isValidDigestToken(username: string, token: string): boolean {
+  const expected = Buffer.from(digestToken(username))
+  const given = Buffer.from(token)
+  return expected.length === given.length && timingSafeEqual(expected, given)
+}
+
+/**
+ * Link that turns a member's digest on or off
+ */
+export function subscriptionLink(baseUrl: string, action: 'subscribe' | 'unsubscribe', username: string): string {
+  const params = new URLSearchParams({ user: username, token: digestToken(username) })
+  return `${baseUrl}/api/digest/${action}?${params}`
+}
+
+/**
+ * Where links in the digest point: APP_URL when set, otherwise the host the request came in on
+ */
+export function digestBaseUrl(request: Request): string {
+  return (process.env.APP_URL || new URL(request.url).origin).replace(/\/+$/, '')
+}
+
+/**
+ * Turns a member's digest on or off from a signed link. Returns false for a bad link.
+ */
+export async function setDigestSubscription(username: string, token: string, subscribed: boolean): Promise<boolean> {
+  if (!isValidDigestToken(username, token)) return false
+
+  const { count } = await prisma.trackedUser.updateMany({
+    where: { username },
+    data: { digestSubscribed: subscribed },
+  })
+  return count > 0
+}
+
+/**
+ * The page a subscribe or unsubscribe link opens. Opening it changes nothing, so mail scanners
+ * that follow links can't flip the subscription; the button POSTs to `action` to confirm.
+ */
+export function renderSubscriptionConfirmation(subscribe: boolean, action: string): string {
+  const message = subscribe
+    ? 'Get the weekly leaderboard digest again?'
+    : 'Stop getting the weekly leaderboard digest?'
+  const button = subscribe ? 'Subscribe' : 'Unsubscribe'
+
+  return `<!doctype html>
+<html>
+  <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; max-width: 480px; margin: 64px auto; padding: 0 24px;">
+    <p>${message}</p>
+    <form method="post" action="${escapeHtml(action)}">
+      <button type="submit">${button}</button>
+    </form>
+  </body>
+</html>
+`
+}
+
+/**
+ * The small page shown once a subscription was changed, with a link to undo it
+ */
+export function renderSubscriptionPage(subscribed: boolean, undoLink: string): string {
+  const message = subscribed
+    ? 'You will get the weekly leaderboard digest again.'
+    : 'You will no longer get the weekly leaderboard digest.'
+  const undo = subscribed ? 'Unsubscribe' : 'Subscribe again'
+
+  return `<!doctype html>
+<html>
+  <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; max-width: 480px; margin: 64px auto; padding: 0 24px;">
+    <p>${message}</p>
+    <p><a href="${escapeHtml(undoLink)}">${undo}</a></p>
+  </body>
+</html>
+`
+}
+
+/**
+ * Emails the digest to every subscribed active member with an email address.
+ * A dry run renders every message but sends nothing, and needs no SMTP settings.
+ */
+export async function sendDigest(baseUrl: string, { dryRun = false, now = new Date() } = {}): Promise<DigestReport> {
+  const digest = await buildDigest(now)
+  const { subject } = renderDigest(digest, { dashboard: baseUrl })
+
+  const recipients = await prisma.trackedUser.findMany({
+    where: { active: true, digestSubscribed: true, email: { not: null } },
+  })
+
+  const report: DigestReport = {
+    dryRun,
+    subject,
+    recipients: recipients.map(recipient => recipient.username),
+    sent: [],
+    failed: [],
+  }
+
+  const mail = dryRun ? null : createMailTransport()
+
+  for (const recipient of recipients) {
+    try {
+      const unsubscribe = subscriptionLink(baseUrl, 'unsubscribe', recipient.username)
+      const message = renderDigest(digest, { dashboard: baseUrl, unsubscribe })
+      if (mail) {
+        await mail.transport.sendMail({
+          from: mail.from,
+          to: recipient.email!,
+          ...message,
+          headers: {
+            'List-Unsubscribe': `<${unsubscribe}>`,
+            'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+          },
+        })
+        report.sent.push(recipient.username)
+      }
+    } catch (error) {
+      console.error(`Failed to send the digest to ${recipient.username}:`, error)
+      report.failed.push({
+        username: recipient.username,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  return report
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from 'vitest'
+import { toCsv } from '@/lib/export'
+
+// export.ts pulls in the LeetCode client through the contest helpers, and loading the real one
+// sends a request to leetcode.com. toCsv never uses it, so an empty object stands in.
+vi.mock('@/lib/leetcode', () => ({ default: {} }))
+
+describe('toCsv', () => {
+  it('quotes fields with delimiters, quotes and line breaks', () => {
+    const rows = [{ name: 'Doe, "Jane"', note: 'line\nbreak', solved: 3 }]
+    expect(toCsv(['name', 'note', 'solved'], rows)).toBe('name,note,solved\r\n"Doe, ""Jane""","line\nbreak",3\r\n')
+  })
+
+  it.each([
+    ['=', '=1+1', "'=1+1"],
+    ['+', '+1', "'+1"],
+    ['-', '-1', "'-1"],
+    ['@', '@SUM(A1)', "'@SUM(A1)"],
+    ['a tab', '\tx', "'\tx"],
+    ['a carriage return', '\rx', `"'\rx"`],
+  ])('prefixes text starting with %s', (_, name, field) => {
+    expect(toCsv(['name'], [{ name }])).toBe(`name\r\n${field}\r\n`)
+  })
+
+  it('prefixes both name and username', () => {
+    const rows = [{ username: '@jane', name: '=HYPERLINK("x")' }]
+    expect(toCsv(['username', 'name'], rows)).toBe(`username,name\r\n'@jane,"'=HYPERLINK(""x"")"\r\n`)
+  })
+
+  it('leaves negative numbers alone, since only text is prefixed', () => {
+    const rows = [{ name: 'Jane', points: -5, text: '-5' }]
+    expect(toCsv(['name', 'points', 'text'], rows)).toBe("name,points,text\r\nJane,-5,'-5\r\n")
+  })
+
+  it('leaves plain text alone', () => {
+    const rows = [{ username: 'jane-doe', name: 'Jane' }]
+    expect(toCsv(['username', 'name'], rows)).toBe('username,name\r\njane-doe,Jane\r\n')
+  })
+})
@@ -0,0 +1,163 @@
+import { attachContestStats } from '@/lib/contests'
+import { findCachedUsers, toRosterUserData } from '@/lib/leaderboard'
+import { MS_IN_DAY, PERIOD_DAYS } from '@/lib/periods'
+import { prisma } from '@/lib/prisma'
+import { RANKING_METRICS, rankUsers } from '@/lib/ranking'
+import { getActiveRoster } from '@/lib/roster'
+import { attachPoints, getActiveScoringFormula } from '@/lib/scoring-presets'
+import { attachPeriodStats, startOfUtcDay } from '@/lib/snapshots'
+import { RankingMetric, TimeRange, UserData } from '@/lib/types'
+
+export const EXPORT_FORMATS = ['csv', 'json']
+
+export const EXPORT_TYPES = ['leaderboard', 'history']
+
+export const TIME_RANGES: TimeRange[] = ['week', 'month', 'year', 'all']
+
+export interface LeaderboardRow {
+  rank: number;
+  username: string;
+  name: string;
+  totalSolved: number;
+  easy: number;
+  medium: number;
+  hard: number;
+  points: number;
+  submissions: number;
+  currentStreak: number;
+  maxStreak: number;
+  longestStreak: number;
+}
+
+export interface HistoryRow {
+  date: string; // YYYY-MM-DD, UTC
+  username: string;
+  name: string;
+  totalSolved: number;
+  easy: number;
+  medium: number;
+  hard: number;
+  submissions: number;
+  currentStreak: number;
+  maxStreak: number;
+}
+
+export const LEADERBOARD_COLUMNS: (keyof LeaderboardRow)[] = [
+  'rank', 'username', 'name', 'totalSolved', 'easy', 'medium', 'hard',
+  'points', 'submissions', 'currentStreak', 'maxStreak', 'longestStreak',
+]
+
+export const HISTORY_COLUMNS: (keyof HistoryRow)[] = [
+  'date', 'username', 'name', 'totalSolved', 'easy', 'medium', 'hard',
+  'submissions', 'currentStreak', 'maxStreak',
+]
+
+export function isTimeRange(value: string): value is TimeRange {
+  return (TIME_RANGES as string[]).includes(value)
+}
+
+export function isRankingMetric(value: string): value is RankingMetric {
+  return (RANKING_METRICS as string[]).includes(value)
+}
+
+/**
+ * The numbers the dashboard shows for the range; streaks are always current
+ */
+function forRange(user: UserData, range: TimeRange): UserData {
+  if (range === 'all' || !user.periods) return user
+  return { ...user, ...user.periods[range] }
+}
+
+/**
+ * Active members ranked as the dashboard tab for the metric shows them in the range
+ */
+export async function getLeaderboardExport(range: TimeRange, metric: RankingMetric): Promise<LeaderboardRow[]> {
+  const roster = await getActiveRoster()
+  const cachedUsers = await findCachedUsers(roster.map(user => user.username))
+  const users = attachPoints(
+    await attachContestStats(await attachPeriodStats(toRosterUserData(roster, cachedUsers))),
+    await getActiveScoringFormula()
+  )
+
+  const ranked = rankUsers(users.map(user => forRange(user, range)), metric)
+
+  return ranked.map((user, index) => ({
+    rank: index + 1,
+    username: user.id,
+    name: user.name,
+    totalSolved: user.totalSolved,
+    easy: user.problemsByDifficulty.easy,
+    medium: user.problemsByDifficulty.medium,
+    hard: user.problemsByDifficulty.hard,
+    points: user.points ?? 0,
+    submissions: user.submissions,
+    currentStreak: user.streak?.current || 0,
+    maxStreak: user.streak?.max || 0,
+    longestStreak: user.streak?.longest || user.streak?.max || 0,
+  }))
+}
+
+/**
+ * Daily snapshots of active members within the range, oldest first.
+ * Pass usernames to export only those members; unknown ones are returned separately.
+ */
+export async function getHistoryExport(
+  range: TimeRange,
+  usernames: string[] = [],
+  now = new Date()
+): Promise<{ rows: HistoryRow[], unknown: string[] }> {
+  const roster = await getActiveRoster()
+  const cachedUsers = await findCachedUsers(roster.map(user => user.username))
+  const members = toRosterUserData(roster, cachedUsers)
+
+  const unknown = usernames.filter(
+    username => !members.some(member => member.id.toLowerCase() === username.toLowerCase())
+  )
+  const selected = usernames.length > 0
+    ? members.filter(member => usernames.some(username => username.toLowerCase() === member.id.toLowerCase()))
+    : members
+  if (selected.length === 0) return { rows: [], unknown }
+
+  const names = new Map(selected.map(member => [member.id, member.name]))
+  const since = range === 'all'
+    ? undefined
+    : new Date(startOfUtcDay(now).getTime() - PERIOD_DAYS[range] * MS_IN_DAY)
+
+  const snapshots = await prisma.userStatSnapshot.findMany({
+    where: { userId: { in: [...names.keys()] }, date: since && { gte: since } },
+    orderBy: [{ date: 'asc' }, { userId: 'asc' }],
+  })
+
+  return {
+    rows: snapshots.map(snapshot => ({
+      date: snapshot.date.toISOString().slice(0, 10),
+      username: snapshot.userId,
+      name: names.get(snapshot.userId)!,
+      totalSolved: snapshot.totalSolved,
+      easy: snapshot.easyCount,
+      medium: snapshot.mediumCount,
+      hard: snapshot.hardCount,
+      submissions: snapshot.submissions,
+      currentStreak: snapshot.currentStreak,
+      maxStreak: snapshot.maxStreak,
+    })),
+    unknown,
+  }
+}
+
+/**
+ * Quotes a CSV field when it contains a delimiter, quote or line break (RFC 4180).
+ * Text that a spreadsheet would run as a formula, like a name starting with `=`, gets a `'` in front.
+ */
+function csvField(value: string | number): string {
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv<T>(columns: (keyof T & string)[], rows: T[]): string {
+  const lines = [columns.join(',')]
+  for (const row of rows) {
+    lines.push(columns.map(column => csvField(row[column] as string | number)).join(','))
+  }
+  return lines.join('\r\n') + '\r\n'
+}
@@ -0,0 +1,154 @@
+import { FetchLog, Prisma } from '@prisma/client'
+import { FetchOutcome } from '@/lib/fetch-queue'
+import { prisma } from '@/lib/prisma'
+
+export const DEFAULT_FETCH_LOG_LIMIT = 100
+const MAX_FETCH_LOG_LIMIT = 500
+
+export interface FetchLogFilters {
+  username?: string;
+  status?: 'success' | 'failure';
+  runId?: string;
+  from?: Date;
+  to?: Date;
+  limit: number;
+  before?: number; // id cursor: only entries older than this one
+}
+
+export interface FetchLogPage {
+  logs: FetchLog[];
+  nextCursor: number | null;
+}
+
+/**
+ * Writes one structured record per fetched user.
+ * `saveErrors` holds users whose fetch succeeded but whose data could not be stored.
+ */
+export async function recordFetchOutcomes(
+  runId: string,
+  outcomes: Map<string, FetchOutcome<unknown>>,
+  saveErrors: Map<string, string>
+): Promise<void> {
+  if (outcomes.size === 0) return
+
+  await prisma.fetchLog.createMany({
+    data: [...outcomes.values()].map(outcome => {
+      const saveError = saveErrors.get(outcome.key)
+
+      return {
+        runId,
+        username: outcome.key,
+        success: outcome.ok && !saveError,
+        startedAt: outcome.startedAt,
+        finishedAt: outcome.finishedAt,
+        durationMs: outcome.durationMs,
+        httpStatus: outcome.httpStatus ?? null,
+        errorClass: saveError ? 'save_failed' : outcome.errorClass ?? null,
+        retries: outcome.retries,
+        error: saveError ?? outcome.error ?? null,
+      }
+    })
+  })
+}
+
+export interface RunSummary {
+  startedAt: number;
+  finishedAt: number;
+  refreshed: string[];
+  failed: { username: string }[];
+  skipped: string[];
+}
+
+/**
+ * Writes the summary row of a refresh run, including runs that had nothing to fetch.
+ * The row has no username and fails when any member failed.
+ */
+export async function recordRunSummary(runId: string, summary: RunSummary): Promise<void> {
+  const { startedAt, finishedAt, refreshed, failed, skipped } = summary
+
+  await prisma.fetchLog.create({
+    data: {
+      runId,
+      success: failed.length === 0,
+      startedAt: new Date(startedAt),
+      finishedAt: new Date(finishedAt),
+      durationMs: finishedAt - startedAt,
+      refreshedCount: refreshed.length,
+      failedCount: failed.length,
+      skippedCount: skipped.length,
+      error: failed.length > 0
+        ? `Failed to refresh ${failed.length} users: ${failed.map(f => f.username).join(', ')}`
+        : null,
+    }
+  })
+}
+
+function parseDate(value: string | null): Date | undefined | null {
+  if (!value) return undefined
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * Reads filters from a query string. Returns an error message for invalid input.
+ */
+export function parseFetchLogFilters(params: URLSearchParams): FetchLogFilters | { error: string } {
+  const status = params.get('status') || undefined
+  if (status !== undefined && status !== 'success' && status !== 'failure') {
+    return { error: 'status must be "success" or "failure"' }
+  }
+
+  const from = parseDate(params.get('from'))
+  const to = parseDate(params.get('to'))
+  if (from === null || to === null) {
+    return { error: 'from and to must be ISO dates' }
+  }
+
+  const limit = params.has('limit') ? parseInt(params.get('limit')!) : DEFAULT_FETCH_LOG_LIMIT
+  if (isNaN(limit) || limit < 1) {
+    return { error: 'limit must be a positive integer' }
+  }
+
+  const before = params.has('before') ? parseInt(params.get('before')!) : undefined
+  if (before !== undefined && isNaN(before)) {
+    return { error: 'before must be a log id' }
+  }
+
+  return {
+    username: params.get('username') || undefined,
+    status,
+    runId: params.get('runId') || undefined,
+    from,
+    to,
+    limit: Math.min(limit, MAX_FETCH_LOG_LIMIT),
+    before,
+  }
+}
+
+/**
+ * Returns matching records, newest first
+ */
+export async function queryFetchLogs(filters: FetchLogFilters): Promise<FetchLogPage> {
+  const where: Prisma.FetchLogWhereInput = {}
+
+  if (filters.username) where.username = { equals: filters.username, mode: 'insensitive' }
+  if (filters.status) where.success = filters.status === 'success'
+  if (filters.runId) where.runId = filters.runId
+  if (filters.from || filters.to) where.timestamp = { gte: filters.from, lte: filters.to }
+  if (filters.before !== undefined) where.id = { lt: filters.before }
+
+  // Fetch one extra row to know whether another page exists
+  const logs = await prisma.fetchLog.findMany({
+    where,
+    orderBy: { id: 'desc' },
+    take: filters.limit + 1,
+  })
+
+  const hasMore = logs.length > filters.limit
+  const page = logs.slice(0, filters.limit)
+
+  return {
+    logs: page,
+    nextCursor: hasMore ? page[page.length - 1].id : null,
+  }
+}
@@ -0,0 +1,229 @@
+// Rate-limited fetch queue for LeetCode requests. Each key (a username) gets
+// its own outcome, so callers can tell rate limiting from a missing user.
+
+export type FetchErrorClass =
+  | "rate_limited"
+  | "server_error"
+  | "client_error"
+  | "network"
+  | "timeout"
+  | "not_found"
+  | "unknown";
+
+export interface FetchOutcome<T> {
+  key: string;
+  ok: boolean;
+  value?: T;
+  error?: string;
+  errorClass?: FetchErrorClass;
+  httpStatus?: number;
+  attempts: number;
+  retries: number;
+  startedAt: Date;
+  finishedAt: Date;
+  durationMs: number;
+}
+
+export interface FetchQueueOptions {
+  concurrency: number;
+  timeoutMs: number; // per attempt
+  maxAttempts: number; // per key, including the first try
+  maxTotalRetries: number; // shared by the whole run
+  baseDelayMs: number;
+  maxDelayMs: number;
+  deadline?: number; // epoch ms after which no new key or retry is started
+  limiter?: TokenBucket;
+}
+
+export interface FetchQueueResult<T> {
+  outcomes: Map<string, FetchOutcome<T>>; // keyed by the key passed in, in the same order
+  skipped: string[]; // keys never started because the deadline passed
+}
+
+/**
+ * Thrown by tasks when the requested entity does not exist; never retried
+ */
+export class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NotFoundError";
+  }
+}
+
+class TimeoutError extends Error {
+  constructor(ms: number) {
+    super(`Request timed out after ${ms}ms`);
+    this.name = "TimeoutError";
+  }
+}
+
+/**
+ * Token bucket: allows bursts of `capacity` requests, refilled at `refillPerSecond`
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(private capacity: number, private refillPerSecond: number) {
+    this.tokens = capacity;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + ((now - this.lastRefill) / 1000) * this.refillPerSecond
+    );
+    this.lastRefill = now;
+  }
+
+  async take(): Promise<void> {
+    this.refill();
+    while (this.tokens < 1) {
+      const waitMs = ((1 - this.tokens) / this.refillPerSecond) * 1000;
+      await sleep(Math.ceil(waitMs));
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+}
+
+// Shared by every caller so all LeetCode traffic from this process counts against one budget
+export const leetcodeLimiter = new TokenBucket(5, 2);
+
+export const DEFAULT_FETCH_QUEUE_OPTIONS: FetchQueueOptions = {
+  concurrency: 5,
+  timeoutMs: 15 * 1000,
+  maxAttempts: 4,
+  maxTotalRetries: 20,
+  baseDelayMs: 500,
+  maxDelayMs: 8 * 1000,
+};
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new TimeoutError(ms)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Classifies an error thrown by leetcode-query, which reports HTTP failures as "HTTP <status> ..."
+ */
+export function classifyError(error: unknown): { errorClass: FetchErrorClass, httpStatus?: number } {
+  if (error instanceof NotFoundError) return { errorClass: "not_found" };
+  if (error instanceof TimeoutError) return { errorClass: "timeout" };
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = message.match(/^HTTP (\d{3})/);
+  if (status) {
+    const httpStatus = parseInt(status[1]);
+    if (httpStatus === 429) return { errorClass: "rate_limited", httpStatus };
+    if (httpStatus === 404) return { errorClass: "not_found", httpStatus };
+    if (httpStatus >= 500) return { errorClass: "server_error", httpStatus };
+    return { errorClass: "client_error", httpStatus };
+  }
+
+  // undici reports connection problems as TypeError("fetch failed")
+  if (error instanceof TypeError || /ECONNRESET|ENOTFOUND|ETIMEDOUT|EAI_AGAIN|socket|network/i.test(message)) {
+    return { errorClass: "network" };
+  }
+
+  return { errorClass: "unknown" };
+}
+
+function isRetryable(errorClass: FetchErrorClass): boolean {
+  return ["rate_limited", "server_error", "network", "timeout"].includes(errorClass);
+}
+
+/**
+ * Exponential backoff with full jitter
+ */
+function backoffDelay(retry: number, { baseDelayMs, maxDelayMs }: FetchQueueOptions): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** retry);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Runs `task` for every key with bounded concurrency, a shared rate limit,
+ * per-attempt timeouts and retries on transient failures.
+ * Never throws; every started key gets an outcome.
+ */
+export async function runFetchQueue<T>(
+  keys: string[],
+  task: (key: string) => Promise<T>,
+  overrides: Partial<FetchQueueOptions> = {}
+): Promise<FetchQueueResult<T>> {
+  const options = { ...DEFAULT_FETCH_QUEUE_OPTIONS, ...overrides };
+  const limiter = options.limiter ?? leetcodeLimiter;
+  const pastDeadline = () => options.deadline !== undefined && Date.now() >= options.deadline;
+
+  const outcomes = new Map<string, FetchOutcome<T>>();
+  const skipped: string[] = [];
+  let retryBudget = options.maxTotalRetries;
+  let next = 0;
+
+  const runKey = async (key: string): Promise<FetchOutcome<T>> => {
+    const startedAt = new Date();
+    let attempts = 0;
+
+    while (true) {
+      attempts++;
+      try {
+        await limiter.take();
+        const value = await withTimeout(task(key), options.timeoutMs);
+        const finishedAt = new Date();
+        return {
+          key, ok: true, value, attempts, retries: attempts - 1,
+          startedAt, finishedAt, durationMs: finishedAt.getTime() - startedAt.getTime(),
+        };
+      } catch (error) {
+        const { errorClass, httpStatus } = classifyError(error);
+        const canRetry = isRetryable(errorClass) &&
+          attempts < options.maxAttempts &&
+          retryBudget > 0;
+        const delay = backoffDelay(attempts - 1, options);
+
+        if (!canRetry || (options.deadline !== undefined && Date.now() + delay >= options.deadline)) {
+          const finishedAt = new Date();
+          return {
+            key, ok: false,
+            error: error instanceof Error ? error.message : String(error),
+            errorClass, httpStatus, attempts, retries: attempts - 1,
+            startedAt, finishedAt, durationMs: finishedAt.getTime() - startedAt.getTime(),
+          };
+        }
+
+        retryBudget--;
+        await sleep(delay);
+      }
+    }
+  };
+
+  const worker = async () => {
+    while (next < keys.length) {
+      const key = keys[next++];
+      if (pastDeadline()) {
+        skipped.push(key);
+        continue;
+      }
+      outcomes.set(key, await runKey(key));
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(options.concurrency, keys.length) }, worker)
+  );
+
+  return {
+    outcomes: new Map(
+      keys.filter(key => outcomes.has(key)).map(key => [key, outcomes.get(key)!])
+    ),
+    skipped: keys.filter(key => skipped.includes(key)),
+  };
+}
@@ -0,0 +1,139 @@
+import { FetchLog } from '@prisma/client'
+import { CACHE_EXPIRY_MS, findCachedUsers, isStale } from '@/lib/leaderboard'
+import { prisma } from '@/lib/prisma'
+import { getActiveRoster, isUnreachable } from '@/lib/roster'
+
+export type HealthStatus = 'ok' | 'degraded' | 'down'
+
+type FetchLogSummary = Pick<FetchLog, 'timestamp' | 'runId' | 'username' | 'errorClass' | 'error'>
+
+type RunSummary = Pick<
+  FetchLog,
+  'timestamp' | 'runId' | 'errorClass' | 'error' | 'refreshedCount' | 'failedCount' | 'skippedCount'
+>
+
+export interface HealthReport {
+  status: HealthStatus;
+  checkedAt: string;
+  database: { ok: boolean, latencyMs?: number, error?: string };
+  cache?: {
+    trackedUsers: number;
+    staleUsers: number; // among members not flagged unreachable
+    unreachableUsers: number;
+    oldestLastFetch: string | null;
+    cacheExpiryMs: number;
+  };
+  lastRun?: RunSummary | null;
+  lastSuccessfulFetch?: FetchLogSummary | null;
+  lastFailedFetch?: FetchLogSummary | null;
+  problems: string[];
+}
+
+const fetchLogSummary = {
+  timestamp: true,
+  runId: true,
+  username: true,
+  errorClass: true,
+  error: true,
+} as const
+
+const runSummary = {
+  timestamp: true,
+  runId: true,
+  errorClass: true,
+  error: true,
+  refreshedCount: true,
+  failedCount: true,
+  skippedCount: true,
+} as const
+
+/**
+ * Whether a whole refresh run failed: it crashed, or every member it fetched failed
+ */
+function runFailed(run: RunSummary): boolean {
+  return run.errorClass === 'run_failed' || (!!run.failedCount && run.refreshedCount === 0)
+}
+
+/**
+ * Checks the database, cache freshness and recent refresh results.
+ * "down" means the database is unreachable; "degraded" means most members are stale or whole
+ * refresh runs are failing. Members already flagged unreachable are counted but never degrade it,
+ * so one deleted LeetCode account does not keep the check failing.
+ */
+export async function checkHealth(now = Date.now()): Promise<HealthReport> {
+  const checkedAt = new Date(now).toISOString()
+
+  const dbStart = Date.now()
+  try {
+    await prisma.$queryRaw`SELECT 1`
+  } catch (error) {
+    return {
+      status: 'down',
+      checkedAt,
+      database: { ok: false, error: error instanceof Error ? error.message : String(error) },
+      problems: ['Database is unreachable'],
+    }
+  }
+  const database = { ok: true, latencyMs: Date.now() - dbStart }
+
+  const roster = await getActiveRoster()
+  const [cachedUsers, lastRun, lastSuccessfulFetch, lastFailedFetch] = await Promise.all([
+    findCachedUsers(roster.map(user => user.username)),
+    // Run summaries and crashed runs are the rows without a username
+    prisma.fetchLog.findFirst({
+      where: { username: null, OR: [{ refreshedCount: { not: null } }, { errorClass: 'run_failed' }] },
+      orderBy: { timestamp: 'desc' },
+      select: runSummary,
+    }),
+    prisma.fetchLog.findFirst({
+      where: { success: true },
+      orderBy: { timestamp: 'desc' },
+      select: fetchLogSummary,
+    }),
+    prisma.fetchLog.findFirst({
+      where: { success: false },
+      orderBy: { timestamp: 'desc' },
+      select: fetchLogSummary,
+    }),
+  ])
+
+  const reachable = roster.filter(user => !isUnreachable(user))
+  const lastFetches = reachable.map(user => cachedUsers.get(user.username)?.lastFetch ?? null)
+  const staleUsers = lastFetches.filter(lastFetch => isStale(lastFetch, now)).length
+  const fetchedTimes = lastFetches.filter((lastFetch): lastFetch is Date => lastFetch !== null)
+  const oldestLastFetch = fetchedTimes.length > 0
+    ? new Date(Math.min(...fetchedTimes.map(date => date.getTime())))
+    : null
+
+  const unreachableUsers = roster.length - reachable.length
+
+  const problems: string[] = []
+  if (staleUsers > reachable.length / 2) {
+    problems.push(`${staleUsers} of ${reachable.length} reachable tracked users have not been refreshed in time`)
+  }
+  if (!lastSuccessfulFetch) {
+    problems.push('No successful fetch has been recorded')
+  } else if (lastSuccessfulFetch.timestamp.getTime() < now - 2 * CACHE_EXPIRY_MS) {
+    problems.push('The last successful fetch is older than twice the cache expiry')
+  }
+  if (lastRun && runFailed(lastRun)) {
+    problems.push('The most recent refresh run failed')
+  }
+
+  return {
+    status: problems.length > 0 ? 'degraded' : 'ok',
+    checkedAt,
+    database,
+    cache: {
+      trackedUsers: roster.length,
+      staleUsers,
+      unreachableUsers,
+      oldestLastFetch: oldestLastFetch?.toISOString() ?? null,
+      cacheExpiryMs: CACHE_EXPIRY_MS,
+    },
+    lastRun,
+    lastSuccessfulFetch,
+    lastFailedFetch,
+    problems,
+  }
+}
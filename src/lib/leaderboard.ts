@@ -0,0 +1,158 @@
+import { LeetCodeUser, TrackedUser } from '@prisma/client'
+import { prisma } from "@/lib/prisma"
+import { isUnreachable } from "@/lib/roster"
+import { calculateStreaks, parseSubmissionCalendar } from "@/lib/streaks"
+import { LeaderboardUser, UserData } from "@/lib/types"
+
+// Cache configuration
+export const CACHE_EXPIRY_MS = 5 * 60 * 60 * 1000 // 5 hours
+
+/**
+ * Whether a cached user is old enough to be fetched again
+ */
+export function isStale(lastFetch: Date | null, now = Date.now()): boolean {
+  return !lastFetch || new Date(lastFetch).getTime() <= now - CACHE_EXPIRY_MS;
+}
+
+/**
+ * Applies the roster's display name override, if any, to a user's data
+ */
+export function applyDisplayName(user: UserData, roster: TrackedUser[]): UserData {
+  const trackedUser = roster.find(
+    tracked => tracked.username.toLowerCase() === user.id.toLowerCase()
+  );
+
+  return trackedUser?.displayName ? { ...user, name: trackedUser.displayName } : user;
+}
+
+/**
+ * Converts a cached database row to the API shape.
+ * Streaks are recomputed from the stored calendar so they stay correct across day boundaries.
+ */
+export function toUserData(cachedUser: LeetCodeUser): UserData {
+  const calendar = parseSubmissionCalendar(cachedUser.submissionCalendar);
+
+  return {
+    id: cachedUser.id,
+    name: cachedUser.name,
+    avatar: cachedUser.avatar,
+    totalSolved: cachedUser.totalSolved,
+    problemsByDifficulty: {
+      easy: cachedUser.easyCount,
+      medium: cachedUser.mediumCount,
+      hard: cachedUser.hardCount,
+    },
+    submissions: cachedUser.submissions,
+    totalSubmissions: cachedUser.totalSubmissions,
+    acceptedSubmissions: Object.keys(calendar).map(k => parseInt(k)),
+    submissionCalendar: calendar,
+    streak: calculateStreaks(calendar, { previousLongest: cachedUser.longestStreak }),
+  };
+}
+
+// Enough contests for the rating sparkline; the profile page and /api/v1 keep the full history
+const DASHBOARD_RATING_HISTORY = 20;
+
+/**
+ * Drops the calendar and submission timestamps, which grow with history, for the dashboard payload,
+ * and keeps only the latest contests of the rating history
+ */
+export function toLeaderboardUser(user: UserData): LeaderboardUser {
+  const numbers: LeaderboardUser & Partial<UserData> = { ...user };
+  delete numbers.acceptedSubmissions;
+  delete numbers.submissionCalendar;
+  if (user.contest) {
+    numbers.contest = {
+      ...user.contest,
+      ratingHistory: user.contest.ratingHistory.slice(-DASHBOARD_RATING_HISTORY),
+    };
+  }
+  return numbers;
+}
+
+/**
+ * Loads cached rows keyed by roster username.
+ * LeetCode returns its own capitalisation of usernames, so the match ignores case.
+ */
+export async function findCachedUsers(usernames: string[]): Promise<Map<string, LeetCodeUser>> {
+  const cachedUsers = await prisma.leetCodeUser.findMany({
+    where: {
+      OR: usernames.map(username => ({ id: { equals: username, mode: 'insensitive' as const } }))
+    }
+  });
+
+  const byLowercaseId = new Map(cachedUsers.map(user => [user.id.toLowerCase(), user]));
+  const result = new Map<string, LeetCodeUser>();
+  for (const username of usernames) {
+    const cachedUser = byLowercaseId.get(username.toLowerCase());
+    if (cachedUser) result.set(username, cachedUser);
+  }
+  return result;
+}
+
+/**
+ * Converts the cached rows of roster members, in roster order, skipping members never fetched.
+ * `storedStreaks` keeps the current streak saved at the last fetch instead of recomputing it,
+ * so a streak that broke since then still shows its old length.
+ */
+export function toRosterUserData(
+  roster: TrackedUser[],
+  cachedUsers: Map<string, LeetCodeUser>,
+  { storedStreaks = false } = {}
+): UserData[] {
+  return roster
+    .filter(member => cachedUsers.has(member.username))
+    .map(member => {
+      const cachedUser = cachedUsers.get(member.username)!;
+      const user = applyDisplayName(toUserData(cachedUser), roster);
+
+      return {
+        ...user,
+        streak: storedStreaks && user.streak ? { ...user.streak, current: cachedUser.currentStreak } : user.streak,
+        unreachable: isUnreachable(member) || undefined,
+      };
+    });
+}
+
+/**
+ * Loads cached data for the given roster members
+ */
+export async function loadCachedUsers(roster: TrackedUser[]): Promise<{
+  cachedUsers: UserData[],
+  usersToRefresh: string[]
+}> {
+  const usersToFetch = roster.map(user => user.username);
+
+  try {
+    const cachedUsers = await findCachedUsers(usersToFetch);
+
+    // Group users by freshness
+    const freshUsers: UserData[] = [];
+    const usersToRefresh: string[] = [];
+
+    for (const trackedUser of roster) {
+      const cachedUser = cachedUsers.get(trackedUser.username);
+
+      if (!cachedUser) {
+        // User not in cache at all
+        usersToRefresh.push(trackedUser.username);
+        continue;
+      }
+
+      if (isStale(cachedUser.lastFetch)) {
+        usersToRefresh.push(trackedUser.username);
+      }
+
+      // Stale data is still included for an immediate response
+      freshUsers.push({
+        ...applyDisplayName(toUserData(cachedUser), roster),
+        unreachable: isUnreachable(trackedUser) || undefined,
+      });
+    }
+
+    return { cachedUsers: freshUsers, usersToRefresh };
+  } catch (error) {
+    console.error('Error reading database cache:', error);
+    return { cachedUsers: [], usersToRefresh: usersToFetch };
+  }
+}
@@ -1,5 +1,209 @@
-import { LeetCode } from "leetcode-query";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import {
+  DailyChallenge,
+  LeetCode,
+  Problem,
+  RecentSubmission,
+  UserContestInfo,
+  UserProfile,
+} from "leetcode-query";
+import { parseSubmissionCalendar, SubmissionCalendar } from "@/lib/streaks";
 
-const leetcode = new LeetCode();
+/**
+ * One year of a member's calendar, plus the years they have any activity in
+ */
+export interface UserCalendar {
+  activeYears: number[];
+  submissionCalendar: SubmissionCalendar;
+}
 
-export default leetcode;
\ No newline at end of file
+/**
+ * The LeetCode calls the leaderboard depends on.
+ * Select the implementation with LEETCODE_CLIENT: "live" (default), "fixture" or "record".
+ */
+export interface LeetCodeClient {
+  user(username: string): Promise<UserProfile>;
+  calendar(username: string, year?: number): Promise<UserCalendar>;
+  recentSubmissions(username: string, limit?: number): Promise<RecentSubmission[]>;
+  contestInfo(username: string): Promise<UserContestInfo>;
+  problem(slug: string): Promise<Problem>;
+  daily(): Promise<DailyChallenge>;
+}
+
+const CALENDAR_QUERY = `
+query userProfileCalendar($username: String!, $year: Int) {
+  matchedUser(username: $username) {
+    userCalendar(year: $year) {
+      activeYears
+      submissionCalendar
+    }
+  }
+}
+`;
+
+/**
+ * Talks to leetcode.com through leetcode-query
+ */
+class LiveLeetCodeClient implements LeetCodeClient {
+  private leetcode = new LeetCode();
+
+  user(username: string) {
+    return this.leetcode.user(username);
+  }
+
+  async calendar(username: string, year?: number) {
+    const { data } = await this.leetcode.graphql({
+      operationName: "userProfileCalendar",
+      variables: { username, year },
+      query: CALENDAR_QUERY,
+    });
+    const userCalendar = data?.matchedUser?.userCalendar;
+    return {
+      activeYears: userCalendar?.activeYears ?? [],
+      submissionCalendar: parseSubmissionCalendar(userCalendar?.submissionCalendar),
+    };
+  }
+
+  recentSubmissions(username: string, limit = 20) {
+    return this.leetcode.recent_submissions(username, limit);
+  }
+
+  contestInfo(username: string) {
+    return this.leetcode.user_contest_info(username);
+  }
+
+  problem(slug: string) {
+    return this.leetcode.problem(slug);
+  }
+
+  daily() {
+    return this.leetcode.daily();
+  }
+}
+
+export class FixtureNotFoundError extends Error {
+  constructor(public readonly file: string) {
+    super(`No LeetCode fixture at ${file}`);
+    this.name = "FixtureNotFoundError";
+  }
+}
+
+/**
+ * Location of a recorded response, e.g. fixtures/leetcode/users/Kho_ja.json
+ */
+function fixturePath(dir: string, kind: string, key: string): string {
+  // Keys are usernames and slugs; keep them from escaping the fixture directory
+  const safeKey = key.replace(/[^A-Za-z0-9_.-]/g, "_");
+  return path.join(dir, kind, `${safeKey}.json`);
+}
+
+function calendarKey(username: string, year?: number): string {
+  return year ? `${username}-${year}` : username;
+}
+
+/**
+ * Serves recorded JSON responses from disk, for offline development
+ */
+class FixtureLeetCodeClient implements LeetCodeClient {
+  constructor(private dir: string) {}
+
+  private async read<T>(kind: string, key: string): Promise<T> {
+    const file = fixturePath(this.dir, kind, key);
+    try {
+      return JSON.parse(await readFile(file, "utf8")) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new FixtureNotFoundError(file);
+      }
+      throw error;
+    }
+  }
+
+  user(username: string) {
+    return this.read<UserProfile>("users", username);
+  }
+
+  calendar(username: string, year?: number) {
+    return this.read<UserCalendar>("calendars", calendarKey(username, year));
+  }
+
+  async recentSubmissions(username: string, limit = 20) {
+    const submissions = await this.read<RecentSubmission[]>("recent-submissions", username);
+    return submissions.slice(0, limit);
+  }
+
+  contestInfo(username: string) {
+    return this.read<UserContestInfo>("contests", username);
+  }
+
+  problem(slug: string) {
+    return this.read<Problem>("problems", slug);
+  }
+
+  // A single recorded daily, served whatever the date
+  daily() {
+    return this.read<DailyChallenge>("daily", "today");
+  }
+}
+
+/**
+ * Calls leetcode.com and saves every response as a fixture
+ */
+class RecordingLeetCodeClient implements LeetCodeClient {
+  private live = new LiveLeetCodeClient();
+
+  constructor(private dir: string) {}
+
+  private async record<T>(kind: string, key: string, response: Promise<T>): Promise<T> {
+    const value = await response;
+    const file = fixturePath(this.dir, kind, key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, JSON.stringify(value, null, 2) + "\n");
+    return value;
+  }
+
+  user(username: string) {
+    return this.record("users", username, this.live.user(username));
+  }
+
+  calendar(username: string, year?: number) {
+    return this.record("calendars", calendarKey(username, year), this.live.calendar(username, year));
+  }
+
+  recentSubmissions(username: string, limit = 20) {
+    return this.record("recent-submissions", username, this.live.recentSubmissions(username, limit));
+  }
+
+  contestInfo(username: string) {
+    return this.record("contests", username, this.live.contestInfo(username));
+  }
+
+  problem(slug: string) {
+    return this.record("problems", slug, this.live.problem(slug));
+  }
+
+  daily() {
+    return this.record("daily", "today", this.live.daily());
+  }
+}
+
+function createLeetCodeClient(): LeetCodeClient {
+  const mode = process.env.LEETCODE_CLIENT || "live";
+  const dir = path.resolve(process.env.LEETCODE_FIXTURES_DIR || "fixtures/leetcode");
+
+  switch (mode) {
+    case "fixture":
+      return new FixtureLeetCodeClient(dir);
+    case "record":
+      return new RecordingLeetCodeClient(dir);
+    case "live":
+      return new LiveLeetCodeClient();
+    default:
+      throw new Error(`Unknown LEETCODE_CLIENT "${mode}", expected live, fixture or record`);
+  }
+}
+
+const leetcode: LeetCodeClient = createLeetCodeClient();
+
+export default leetcode;
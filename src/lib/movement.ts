@@ -0,0 +1,150 @@
+import { MS_IN_DAY, PERIOD_DAYS } from '@/lib/periods'
+import { RANKING_METRICS, rankPositions, Standing } from '@/lib/ranking'
+import { calculatePoints, calculateSolvePoints, ScoringWeights } from '@/lib/scoring'
+import {
+  findEarliestSnapshots,
+  findSnapshotsAsOf,
+  SnapshotTotals,
+  startOfUtcDay,
+} from '@/lib/snapshots'
+import { RankingMetric, RankMovement, TimeRange, UserData } from '@/lib/types'
+
+// All time has no previous period, so it is compared with the standings a week ago
+const ALL_TIME_COMPARISON_DAYS = PERIOD_DAYS.week
+
+const TIME_RANGES: TimeRange[] = ['week', 'month', 'year', 'all']
+
+function comparisonDays(range: TimeRange): number {
+  return range === 'all' ? ALL_TIME_COMPARISON_DAYS : PERIOD_DAYS[range]
+}
+
+/**
+ * Contests attended up to the end of a day, counted back from the current total
+ */
+function contestsAsOf(user: UserData, day: Date): number {
+  if (!user.contest) return 0
+  const cutoff = day.toISOString().slice(0, 10)
+  const since = user.contest.ratingHistory.filter(entry => entry.date > cutoff).length
+  return Math.max(0, user.contest.attendedContests - since)
+}
+
+/**
+ * All-time standing as of a snapshot, scored like the current all-time points
+ */
+function standingAt(snapshot: SnapshotTotals, attendedContests: number, weights: ScoringWeights): Standing {
+  const standing = {
+    id: snapshot.userId,
+    totalSolved: snapshot.totalSolved,
+    problemsByDifficulty: {
+      easy: snapshot.easyCount,
+      medium: snapshot.mediumCount,
+      hard: snapshot.hardCount,
+    },
+    submissions: snapshot.submissions,
+    streak: { current: snapshot.currentStreak, max: snapshot.maxStreak },
+  }
+  return { ...standing, points: calculatePoints({ ...standing, attendedContests }, weights) }
+}
+
+/**
+ * Progress made between two snapshots, scored like the current period points.
+ * Streaks are not per-period, so the later ones are kept.
+ */
+function standingBetween(start: SnapshotTotals, end: SnapshotTotals, weights: ScoringWeights): Standing {
+  const standing = {
+    id: end.userId,
+    totalSolved: Math.max(0, end.totalSolved - start.totalSolved),
+    problemsByDifficulty: {
+      easy: Math.max(0, end.easyCount - start.easyCount),
+      medium: Math.max(0, end.mediumCount - start.mediumCount),
+      hard: Math.max(0, end.hardCount - start.hardCount),
+    },
+    submissions: Math.max(0, end.submissions - start.submissions),
+    streak: { current: end.currentStreak, max: end.maxStreak },
+  }
+  return { ...standing, points: calculateSolvePoints(standing, weights) }
+}
+
+/**
+ * The numbers a dashboard tab shows for the range
+ */
+function currentStanding(user: UserData, range: TimeRange): Standing {
+  if (range === 'all' || !user.periods) return user
+  return { ...user, ...user.periods[range] }
+}
+
+
+/**
+ * Adds each user's rank change in every tab and time range.
+ *
+ * A week, month or year is compared with the period of the same length just
+ * before it, both rebuilt from daily snapshots; all time is compared with the
+ * standings a week ago. Members without a snapshot from back then are "new".
+ * Expects period stats, contest stats and points to be attached already; past points use the same formula.
+ */
+export async function attachRankMovement(
+  users: UserData[],
+  weights: ScoringWeights,
+  now = new Date()
+): Promise<UserData[]> {
+  if (users.length === 0) return users
+
+  const userIds = users.map(user => user.id)
+  const today = startOfUtcDay(now)
+
+  try {
+    const earliestByUser = await findEarliestSnapshots(userIds)
+
+    // Several ranges share cutoffs (a week back, two weeks back, ...), so look each one up once
+    const snapshotsDaysAgo = new Map<number, Map<string, SnapshotTotals>>()
+    const asOfDaysAgo = async (days: number) => {
+      if (!snapshotsDaysAgo.has(days)) {
+        snapshotsDaysAgo.set(days, await findSnapshotsAsOf(userIds, new Date(today.getTime() - days * MS_IN_DAY)))
+      }
+      return snapshotsDaysAgo.get(days)!
+    }
+
+    const movement = new Map<string, Record<TimeRange, Record<RankingMetric, RankMovement>>>(
+      userIds.map(id => [id, {} as Record<TimeRange, Record<RankingMetric, RankMovement>>])
+    )
+
+    for (const range of TIME_RANGES) {
+      const days = comparisonDays(range)
+      const periodEnd = await asOfDaysAgo(days)
+      const periodStart = range === 'all' ? undefined : await asOfDaysAgo(2 * days)
+
+      const previous: Standing[] = []
+      for (const [userId, end] of periodEnd) {
+        if (range === 'all') {
+          const member = users.find(user => user.id === userId)
+          const attendedContests = member ? contestsAsOf(member, new Date(today.getTime() - days * MS_IN_DAY)) : 0
+          previous.push(standingAt(end, attendedContests, weights))
+        } else {
+          const start = periodStart!.get(userId) ?? earliestByUser.get(userId) ?? end
+          previous.push(standingBetween(start, end, weights))
+        }
+      }
+
+      const current = users.map(user => currentStanding(user, range))
+
+      for (const metric of RANKING_METRICS) {
+        const currentPositions = rankPositions(current, metric)
+        const previousPositions = rankPositions(previous, metric)
+
+        for (const user of users) {
+          const before = previousPositions.get(user.id)
+          const entry = movement.get(user.id)!
+          entry[range] ??= {} as Record<RankingMetric, RankMovement>
+          entry[range][metric] = before === undefined
+            ? 'new'
+            : before - currentPositions.get(user.id)!
+        }
+      }
+    }
+
+    return users.map(user => ({ ...user, rankMovement: movement.get(user.id) }))
+  } catch (error) {
+    console.error('Failed to compute rank movement:', error)
+    return users
+  }
+}
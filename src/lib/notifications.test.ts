@@ -0,0 +1,80 @@
+import { LeetCodeUser, TrackedUser } from '@prisma/client'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { toRosterUserData } from '@/lib/leaderboard'
+import { detectEvents } from '@/lib/notifications'
+
+const NOW = new Date('2026-03-10T12:00:00Z')
+
+const member: TrackedUser = {
+  username: 'alice',
+  displayName: null,
+  active: true,
+  joinedAt: new Date('2026-01-01T00:00:00Z'),
+  consecutiveFailures: 0,
+  lastFailureAt: null,
+  lastError: null,
+  email: null,
+  digestSubscribed: true,
+}
+
+/**
+ * A cached row with one submission on each of the given UTC days
+ */
+function rowOf(days: string[], currentStreak: number): LeetCodeUser {
+  const calendar = Object.fromEntries(days.map(day => [String(new Date(`${day}T12:00:00Z`).getTime() / 1000), 1]))
+
+  return {
+    id: 'alice',
+    name: 'Alice',
+    avatar: '',
+    lastFetch: NOW,
+    totalSolved: days.length,
+    easyCount: days.length,
+    mediumCount: 0,
+    hardCount: 0,
+    submissions: days.length,
+    totalSubmissions: days.length,
+    currentStreak,
+    maxStreak: days.length,
+    longestStreak: days.length,
+    submissionCalendar: calendar,
+  }
+}
+
+describe('streak-broken events', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(NOW)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  // Five days in a row ending Mar 7: alive when last fetched, broken by Mar 10
+  const days = ['2026-03-03', '2026-03-04', '2026-03-05', '2026-03-06', '2026-03-07']
+  const previous = new Map([['alice', rowOf(days, 5)]])
+  const current = new Map([['alice', rowOf(days, 0)]])
+
+  it('fires when the stored streak was alive and the calendar now ends before yesterday', () => {
+    const events = detectEvents(
+      toRosterUserData([member], previous, { storedStreaks: true }),
+      toRosterUserData([member], current),
+      new Map()
+    )
+
+    expect(events).toEqual([
+      { type: 'streak-broken', userId: 'alice', text: 'Alice lost a 5-day streak' },
+    ])
+  })
+
+  it('cannot see the break when the previous streak is recomputed now', () => {
+    const events = detectEvents(
+      toRosterUserData([member], previous),
+      toRosterUserData([member], current),
+      new Map()
+    )
+
+    expect(events.filter(event => event.type === 'streak-broken')).toEqual([])
+  })
+})
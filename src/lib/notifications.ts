@@ -0,0 +1,120 @@
+import { findAchievement } from '@/lib/achievements'
+import { rankUsers } from '@/lib/ranking'
+import { UserData } from '@/lib/types'
+
+// Shared by the server, which detects and sends events, and the admin page, which filters them
+
+export const NOTIFICATION_EVENTS = ['new-leader', 'overtake', 'milestone', 'streak-broken', 'new-hard'] as const
+
+export type NotificationEventType = (typeof NOTIFICATION_EVENTS)[number]
+
+export const NOTIFICATION_EVENT_LABELS: Record<NotificationEventType, string> = {
+  'new-leader': 'New #1',
+  'overtake': 'Overtakes',
+  'milestone': 'Milestones',
+  'streak-broken': 'Streaks broken',
+  'new-hard': 'New Hard solved',
+}
+
+export const WEBHOOK_FORMATS = ['slack', 'discord', 'json'] as const
+
+export type WebhookFormat = (typeof WEBHOOK_FORMATS)[number]
+
+export interface NotificationEvent {
+  type: NotificationEventType;
+  userId: string;
+  text: string; // one line, ready for chat
+}
+
+// Shorter streaks come and go too often to be worth a message
+export const MIN_NOTIFIED_STREAK = 3
+
+/**
+ * Positions by problems solved, the dashboard's default tab
+ */
+function positions(users: UserData[]): Map<string, number> {
+  return new Map(rankUsers(users, 'problems').map((user, index) => [user.id, index + 1]))
+}
+
+/**
+ * Compares the standings before and after a refresh. `after` holds every
+ * member, refreshed or not; `unlocked` maps user ids to newly unlocked
+ * achievements. Members missing from `before` were never fetched and only
+ * report their own milestones.
+ */
+export function detectEvents(
+  before: UserData[],
+  after: UserData[],
+  unlocked: Map<string, string[]>
+): NotificationEvent[] {
+  const events: NotificationEvent[] = []
+  const beforeById = new Map(before.map(user => [user.id, user]))
+  const beforePositions = positions(before)
+  const afterPositions = positions(after)
+  const afterRanked = rankUsers(after, 'problems')
+
+  const previousLeader = rankUsers(before, 'problems')[0]
+  const leader = afterRanked[0]
+  if (previousLeader && leader && leader.id !== previousLeader.id && beforeById.has(leader.id)) {
+    events.push({
+      type: 'new-leader',
+      userId: leader.id,
+      text: `${leader.name} is the new #1 with ${leader.totalSolved} problems solved`,
+    })
+  }
+
+  for (const user of afterRanked) {
+    const wasAt = beforePositions.get(user.id)
+    const nowAt = afterPositions.get(user.id)!
+    if (wasAt === undefined || nowAt >= wasAt) continue
+
+    const passed = after.filter(other => {
+      const otherWasAt = beforePositions.get(other.id)
+      return otherWasAt !== undefined && otherWasAt < wasAt && afterPositions.get(other.id)! > nowAt
+    })
+    for (const other of passed) {
+      events.push({
+        type: 'overtake',
+        userId: user.id,
+        text: `${user.name} overtook ${other.name} and is now #${nowAt}`,
+      })
+    }
+  }
+
+  for (const user of after) {
+    for (const achievementId of unlocked.get(user.id) ?? []) {
+      const achievement = findAchievement(achievementId)
+      if (!achievement) continue
+      events.push({
+        type: 'milestone',
+        userId: user.id,
+        text: `${user.name} unlocked ${achievement.name}: ${achievement.description}`,
+      })
+    }
+
+    const previous = beforeById.get(user.id)
+    if (!previous) continue
+
+    const previousStreak = previous.streak?.current || 0
+    if (previousStreak >= MIN_NOTIFIED_STREAK && (user.streak?.current || 0) === 0) {
+      events.push({
+        type: 'streak-broken',
+        userId: user.id,
+        text: `${user.name} lost a ${previousStreak}-day streak`,
+      })
+    }
+
+    const newHard = user.problemsByDifficulty.hard - previous.problemsByDifficulty.hard
+    if (newHard > 0) {
+      events.push({
+        type: 'new-hard',
+        userId: user.id,
+        text: newHard === 1
+          ? `${user.name} solved a new Hard problem`
+          : `${user.name} solved ${newHard} new Hard problems`,
+      })
+    }
+  }
+
+  return events
+}
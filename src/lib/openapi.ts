@@ -0,0 +1,235 @@
+import {
+  API_ORDERS,
+  API_RANGES,
+  API_SORTS,
+  DEFAULT_API_LIMIT,
+  LEADERBOARD_FIELDS,
+  MAX_API_LIMIT,
+} from '@/lib/public-api'
+
+// OpenAPI description of /api/v1, served at /api/v1/openapi.json
+
+const integer = { type: 'integer' }
+const string = { type: 'string' }
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` })
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: ref('Error') } },
+})
+
+const solved = {
+  type: 'object',
+  required: ['total', 'easy', 'medium', 'hard'],
+  properties: { total: integer, easy: integer, medium: integer, hard: integer },
+}
+
+const progress = {
+  type: 'object',
+  required: ['solved', 'submissions', 'points'],
+  properties: { solved: ref('Solved'), submissions: integer, points: integer },
+}
+
+const rank = {
+  type: 'object',
+  required: ['position', 'of'],
+  properties: { position: integer, of: integer },
+}
+
+export const OPENAPI_DOCUMENT = {
+  openapi: '3.1.0',
+  info: {
+    title: 'LeetCode Leaderboard API',
+    version: '1.0.0',
+    description: 'Read-only access to the team leaderboard. Fields are only ever added within v1.',
+  },
+  servers: [{ url: '/api/v1' }],
+  paths: {
+    '/leaderboard': {
+      get: {
+        summary: 'Ranked members for a time range or custom window',
+        description:
+          'For a range or window, solved counts, submissions and points are the progress made within it; '
+          + 'streaks are the ones at its end. Pass either `range` or `from`/`to`.',
+        parameters: [
+          {
+            name: 'range',
+            in: 'query',
+            description: 'Defaults to week when no window is given',
+            schema: { type: 'string', enum: API_RANGES, default: 'week' },
+          },
+          {
+            name: 'from',
+            in: 'query',
+            description: 'First day of a custom window (UTC, inclusive)',
+            schema: { type: 'string', format: 'date' },
+          },
+          {
+            name: 'to',
+            in: 'query',
+            description: 'Last day of a custom window (UTC, inclusive); defaults to now',
+            schema: { type: 'string', format: 'date' },
+          },
+          {
+            name: 'sort',
+            in: 'query',
+            description: 'streak sorts by the max streak',
+            schema: { type: 'string', enum: Object.keys(API_SORTS), default: 'solved' },
+          },
+          {
+            name: 'order',
+            in: 'query',
+            description: 'desc lists the best first; rank is the same either way',
+            schema: { type: 'string', enum: API_ORDERS, default: 'desc' },
+          },
+          {
+            name: 'limit',
+            in: 'query',
+            schema: { type: 'integer', minimum: 1, maximum: MAX_API_LIMIT, default: DEFAULT_API_LIMIT },
+          },
+          {
+            name: 'offset',
+            in: 'query',
+            schema: { type: 'integer', minimum: 0, default: 0 },
+          },
+          {
+            name: 'fields',
+            in: 'query',
+            description: 'Comma-separated fields to return; rank and username are always included',
+            style: 'form',
+            explode: false,
+            schema: { type: 'array', items: { type: 'string', enum: LEADERBOARD_FIELDS } },
+          },
+        ],
+        responses: {
+          200: {
+            description: 'One page of the leaderboard',
+            content: { 'application/json': { schema: ref('Leaderboard') } },
+          },
+          400: errorResponse('A parameter is invalid'),
+        },
+      },
+    },
+    '/users/{username}': {
+      get: {
+        summary: 'One member',
+        description: 'Ranks are all-time positions among active members.',
+        parameters: [
+          { name: 'username', in: 'path', required: true, description: 'LeetCode username, any case', schema: string },
+        ],
+        responses: {
+          200: {
+            description: 'The member',
+            content: {
+              'application/json': {
+                schema: { type: 'object', required: ['data'], properties: { data: ref('User') } },
+              },
+            },
+          },
+          404: errorResponse('Not an active member, or never fetched'),
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Error: { type: 'object', required: ['error'], properties: { error: string } },
+      Solved: solved,
+      Streak: {
+        type: 'object',
+        required: ['current', 'max', 'longest'],
+        properties: { current: integer, max: integer, longest: integer },
+      },
+      Contest: {
+        type: ['object', 'null'],
+        description: 'null for members who never entered a rated contest',
+        required: ['rating', 'globalRanking', 'topPercentage', 'attendedContests', 'badge'],
+        properties: {
+          rating: { type: 'number' },
+          globalRanking: integer,
+          topPercentage: { type: 'number' },
+          attendedContests: integer,
+          badge: { type: ['string', 'null'] },
+        },
+      },
+      LeaderboardEntry: {
+        type: 'object',
+        required: ['rank', 'username'],
+        properties: {
+          rank: { type: 'integer', description: '1 is best for the sort' },
+          username: string,
+          name: string,
+          avatar: string,
+          solved: ref('Solved'),
+          points: { type: 'integer', description: 'Under the active scoring formula' },
+          submissions: { type: 'integer', description: 'Accepted submissions' },
+          streak: ref('Streak'),
+          contest: ref('Contest'),
+          unreachable: { type: 'boolean', description: 'Recent refreshes failed; numbers may be old' },
+        },
+      },
+      Leaderboard: {
+        type: 'object',
+        required: ['data', 'meta'],
+        properties: {
+          data: { type: 'array', items: ref('LeaderboardEntry') },
+          meta: {
+            type: 'object',
+            required: ['range', 'from', 'to', 'sort', 'order', 'limit', 'offset', 'total', 'scoring', 'generatedAt'],
+            properties: {
+              range: { type: ['string', 'null'], enum: [...API_RANGES, null] },
+              from: { type: ['string', 'null'], format: 'date' },
+              to: { type: ['string', 'null'], format: 'date' },
+              sort: { type: 'string', enum: Object.keys(API_SORTS) },
+              order: { type: 'string', enum: API_ORDERS },
+              limit: integer,
+              offset: integer,
+              total: { type: 'integer', description: 'Members across all pages' },
+              scoring: { type: 'string', description: 'Id of the scoring formula' },
+              generatedAt: { type: 'string', format: 'date-time' },
+            },
+          },
+        },
+      },
+      Progress: progress,
+      User: {
+        type: 'object',
+        required: [
+          'username', 'name', 'avatar', 'solved', 'points', 'submissions', 'totalSubmissions',
+          'acceptanceRate', 'streak', 'contest', 'periods', 'ranks', 'achievements', 'unreachable',
+        ],
+        properties: {
+          username: string,
+          name: string,
+          avatar: string,
+          solved: ref('Solved'),
+          points: integer,
+          submissions: { type: 'integer', description: 'Accepted submissions' },
+          totalSubmissions: integer,
+          acceptanceRate: { type: ['number', 'null'], description: 'Percentage; null before any submission' },
+          streak: ref('Streak'),
+          contest: ref('Contest'),
+          periods: {
+            type: 'object',
+            required: ['week', 'month', 'year'],
+            properties: { week: ref('Progress'), month: ref('Progress'), year: ref('Progress') },
+          },
+          ranks: {
+            type: 'object',
+            required: Object.keys(API_SORTS),
+            properties: Object.fromEntries(Object.keys(API_SORTS).map(sort => [sort, rank])),
+          },
+          achievements: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['id', 'name', 'unlockedAt'],
+              properties: { id: string, name: string, unlockedAt: { type: 'string', format: 'date-time' } },
+            },
+          },
+          unreachable: { type: 'boolean' },
+        },
+      },
+    },
+  },
+}
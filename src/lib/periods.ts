@@ -0,0 +1,13 @@
+import { TimeRange } from '@/lib/types'
+
+// Kept free of server imports so client components can use it too
+
+export type Period = Exclude<TimeRange, 'all'>
+
+export const PERIOD_DAYS: Record<Period, number> = {
+  week: 7,
+  month: 30,
+  year: 365,
+}
+
+export const MS_IN_DAY = 24 * 60 * 60 * 1000
@@ -0,0 +1,46 @@
+import { LeetCodeProblem } from '@prisma/client'
+import { leetcodeLimiter } from '@/lib/fetch-queue'
+import leetcode from '@/lib/leetcode'
+import { prisma } from '@/lib/prisma'
+
+/**
+ * Looks up problems by slug, fetching and caching any we have not seen before.
+ * Slugs that cannot be fetched are left out of the result and retried next time.
+ */
+export async function resolveProblems(slugs: string[]): Promise<Map<string, LeetCodeProblem>> {
+  const uniqueSlugs = [...new Set(slugs)]
+  const known = await prisma.leetCodeProblem.findMany({
+    where: { slug: { in: uniqueSlugs } }
+  })
+
+  const problems = new Map(known.map(problem => [problem.slug, problem]))
+
+  // The catalog only grows by a handful of problems per refresh, so fetch them one by one
+  for (const slug of uniqueSlugs) {
+    if (problems.has(slug)) continue
+
+    try {
+      await leetcodeLimiter.take()
+      const problem = await leetcode.problem(slug)
+      if (!problem) continue
+
+      const data = {
+        problemId: problem.questionFrontendId,
+        title: problem.title,
+        difficulty: problem.difficulty,
+        paidOnly: problem.isPaidOnly,
+      }
+
+      const saved = await prisma.leetCodeProblem.upsert({
+        where: { slug },
+        update: data,
+        create: { slug, ...data },
+      })
+      problems.set(slug, saved)
+    } catch (error) {
+      console.error(`Failed to fetch problem ${slug}:`, error)
+    }
+  }
+
+  return problems
+}
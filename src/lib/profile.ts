@@ -0,0 +1,106 @@
+import { attachAchievements } from '@/lib/achievement-unlocks'
+import { attachContestStats } from '@/lib/contests'
+import { findCachedUsers, toRosterUserData } from '@/lib/leaderboard'
+import { MS_IN_DAY, PERIOD_DAYS } from '@/lib/periods'
+import { prisma } from '@/lib/prisma'
+import { RANKING_METRICS, rankPositions } from '@/lib/ranking'
+import { getActiveRoster } from '@/lib/roster'
+import { ScoringFormula } from '@/lib/scoring'
+import { attachPoints, getActiveScoringFormula } from '@/lib/scoring-presets'
+import { startOfUtcDay } from '@/lib/snapshots'
+import { RankingMetric, UserData } from '@/lib/types'
+
+// Most recent solved problems shown on the profile timeline
+const SOLVED_PROBLEMS_LIMIT = 100
+
+export interface DailyProgress {
+  date: string; // YYYY-MM-DD, UTC
+  totalSolved: number;
+  solved: number; // change since the previous snapshot
+  currentStreak: number;
+  maxStreak: number;
+}
+
+export interface SolvedProblem {
+  slug: string;
+  title: string;
+  difficulty: string;
+  lang: string;
+  solvedAt: string;
+}
+
+export interface MemberProfile {
+  user: UserData;
+  joinedAt: string;
+  lastFetch: string;
+  ranks: Record<RankingMetric, { position: number, of: number }>;
+  scoring: ScoringFormula;
+  history: DailyProgress[]; // oldest first, covering the last year
+  solvedProblems: SolvedProblem[]; // newest first
+  generatedAt: string; // date windows on the page end here, so a cached page hydrates the same
+}
+
+/**
+ * Loads everything the profile page shows for one active member.
+ * Returns null when the member is not on the roster or has never been fetched.
+ */
+export async function getMemberProfile(username: string, now = new Date()): Promise<MemberProfile | null> {
+  const roster = await getActiveRoster()
+  const trackedUser = roster.find(user => user.username.toLowerCase() === username.toLowerCase())
+  if (!trackedUser) return null
+
+  const cachedUsers = await findCachedUsers(roster.map(user => user.username))
+  const cachedUser = cachedUsers.get(trackedUser.username)
+  if (!cachedUser) return null
+
+  // Ranks are positions among every cached member, using all-time numbers and the dashboard's tie-break
+  const scoring = await getActiveScoringFormula()
+  const members = attachPoints(await attachContestStats(toRosterUserData(roster, cachedUsers)), scoring)
+  const [user] = await attachAchievements([members.find(member => member.id === cachedUser.id)!])
+
+  const ranks = {} as MemberProfile['ranks']
+  for (const metric of RANKING_METRICS) {
+    ranks[metric] = {
+      position: rankPositions(members, metric).get(user.id)!,
+      of: members.length,
+    }
+  }
+
+  const since = new Date(startOfUtcDay(now).getTime() - PERIOD_DAYS.year * MS_IN_DAY)
+  const [snapshots, submissions] = await Promise.all([
+    prisma.userStatSnapshot.findMany({
+      where: { userId: user.id, date: { gte: since } },
+      orderBy: { date: 'asc' },
+    }),
+    prisma.leetCodeSubmission.findMany({
+      where: { userId: user.id, accepted: true },
+      orderBy: { timestamp: 'desc' },
+      take: SOLVED_PROBLEMS_LIMIT,
+    }),
+  ])
+
+  const history = snapshots.map((snapshot, index) => ({
+    date: snapshot.date.toISOString().slice(0, 10),
+    totalSolved: snapshot.totalSolved,
+    solved: index > 0 ? Math.max(0, snapshot.totalSolved - snapshots[index - 1].totalSolved) : 0,
+    currentStreak: snapshot.currentStreak,
+    maxStreak: snapshot.maxStreak,
+  }))
+
+  return {
+    user,
+    joinedAt: trackedUser.joinedAt.toISOString(),
+    lastFetch: cachedUser.lastFetch.toISOString(),
+    ranks,
+    scoring,
+    history,
+    solvedProblems: submissions.map(submission => ({
+      slug: submission.problemSlug,
+      title: submission.title,
+      difficulty: submission.difficulty,
+      lang: submission.lang,
+      solvedAt: submission.timestamp.toISOString(),
+    })),
+    generatedAt: now.toISOString(),
+  }
+}
@@ -0,0 +1,396 @@
+import { attachAchievements } from '@/lib/achievement-unlocks'
+import { findAchievement } from '@/lib/achievements'
+import { attachContestStats } from '@/lib/contests'
+import { findCachedUsers, toRosterUserData } from '@/lib/leaderboard'
+import { MS_IN_DAY, Period, PERIOD_DAYS } from '@/lib/periods'
+import { rankPositions, rankUsers } from '@/lib/ranking'
+import { getActiveRoster } from '@/lib/roster'
+import { acceptanceRate, calculateSolvePoints, ScoringFormula } from '@/lib/scoring'
+import { attachPoints, getActiveScoringFormula } from '@/lib/scoring-presets'
+import {
+  attachPeriodStats,
+  diffFromSnapshot,
+  findEarliestSnapshots,
+  findSnapshotsAsOf,
+  startOfUtcDay,
+} from '@/lib/snapshots'
+import { PeriodStats, RankingMetric, TimeRange, UserData } from '@/lib/types'
+
+// Response shapes of /api/v1. Keep them in sync with lib/openapi and only ever add to them.
+
+export type ApiSort = 'solved' | 'points' | 'submissions' | 'streak'
+export type ApiOrder = 'asc' | 'desc'
+
+export const API_SORTS: Record<ApiSort, RankingMetric> = {
+  solved: 'problems',
+  points: 'points',
+  submissions: 'submissions',
+  streak: 'streaks',
+}
+
+export const API_ORDERS: ApiOrder[] = ['desc', 'asc']
+export const API_RANGES: TimeRange[] = ['week', 'month', 'year', 'all']
+
+export const DEFAULT_API_LIMIT = 50
+export const MAX_API_LIMIT = 200
+
+// Fields that can be picked with `fields`; rank and username are always included
+export const LEADERBOARD_FIELDS = [
+  'name', 'avatar', 'solved', 'points', 'submissions', 'streak', 'contest', 'unreachable',
+] as const
+export type LeaderboardField = (typeof LEADERBOARD_FIELDS)[number]
+
+export interface ApiSolved {
+  total: number;
+  easy: number;
+  medium: number;
+  hard: number;
+}
+
+export interface ApiStreak {
+  current: number;
+  max: number;
+  longest: number;
+}
+
+export interface ApiContest {
+  rating: number;
+  globalRanking: number;
+  topPercentage: number;
+  attendedContests: number;
+  badge: string | null;
+}
+
+export interface ApiLeaderboardEntry {
+  rank: number; // 1 is best for the sort, whatever the order
+  username: string;
+  name: string;
+  avatar: string;
+  solved: ApiSolved;
+  points: number;
+  submissions: number; // accepted submissions
+  streak: ApiStreak;
+  contest: ApiContest | null;
+  unreachable: boolean;
+}
+
+export interface ApiLeaderboard {
+  data: Partial<ApiLeaderboardEntry>[];
+  meta: {
+    range: TimeRange | null;
+    from: string | null; // YYYY-MM-DD, UTC
+    to: string | null;
+    sort: ApiSort;
+    order: ApiOrder;
+    limit: number;
+    offset: number;
+    total: number;
+    scoring: string; // id of the formula points were computed with
+    generatedAt: string;
+  };
+}
+
+export interface ApiProgress {
+  solved: ApiSolved;
+  submissions: number;
+  points: number;
+}
+
+export interface ApiUser {
+  username: string;
+  name: string;
+  avatar: string;
+  solved: ApiSolved;
+  points: number;
+  submissions: number;
+  totalSubmissions: number;
+  acceptanceRate: number | null;
+  streak: ApiStreak;
+  contest: ApiContest | null;
+  periods: Record<Period, ApiProgress>;
+  ranks: Record<ApiSort, { position: number, of: number }>;
+  achievements: { id: string, name: string, unlockedAt: string }[];
+  unreachable: boolean;
+}
+
+export interface LeaderboardQuery {
+  range: TimeRange | null; // null when from/to are given
+  from: Date | null;
+  to: Date | null;
+  sort: ApiSort;
+  order: ApiOrder;
+  limit: number;
+  offset: number;
+  fields: LeaderboardField[] | null; // null for every field
+}
+
+/**
+ * Parses a YYYY-MM-DD day as midnight UTC, or null if it is not a real day
+ */
+function parseDay(value: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null
+  const date = new Date(`${value}T00:00:00Z`)
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value) ? date : null
+}
+
+function formatDay(date: Date | null): string | null {
+  return date && date.toISOString().slice(0, 10)
+}
+
+function parseCount(value: string | null, fallback: number): number | null {
+  if (value === null) return fallback
+  return /^\d+$/.test(value) ? parseInt(value) : null
+}
+
+/**
+ * Validates the leaderboard query string. Returns the first problem found as an error message.
+ */
+export function parseLeaderboardQuery(params: URLSearchParams, now = new Date()): { query: LeaderboardQuery } | { error: string } {
+  const range = params.get('range')
+  const fromParam = params.get('from')
+  const toParam = params.get('to')
+  const sort = params.get('sort') ?? 'solved'
+  const order = params.get('order') ?? 'desc'
+
+  if (range !== null && (fromParam !== null || toParam !== null)) {
+    return { error: 'Use either range or from/to, not both' }
+  }
+  if (range !== null && !(API_RANGES as string[]).includes(range)) {
+    return { error: `range must be one of ${API_RANGES.join(', ')}` }
+  }
+
+  let from: Date | null = null
+  let to: Date | null = null
+  if (fromParam !== null || toParam !== null) {
+    if (fromParam === null) return { error: 'from is required when to is given' }
+    from = parseDay(fromParam)
+    if (!from) return { error: 'from must be a date like 2025-01-31' }
+    if (toParam !== null) {
+      to = parseDay(toParam)
+      if (!to) return { error: 'to must be a date like 2025-01-31' }
+    }
+    if (from > (to ?? now)) return { error: 'from must not be after to' }
+  }
+
+  if (!Object.keys(API_SORTS).includes(sort)) {
+    return { error: `sort must be one of ${Object.keys(API_SORTS).join(', ')}` }
+  }
+  if (!(API_ORDERS as string[]).includes(order)) {
+    return { error: `order must be one of ${API_ORDERS.join(', ')}` }
+  }
+
+  const limit = parseCount(params.get('limit'), DEFAULT_API_LIMIT)
+  if (limit === null || limit < 1 || limit > MAX_API_LIMIT) {
+    return { error: `limit must be between 1 and ${MAX_API_LIMIT}` }
+  }
+  const offset = parseCount(params.get('offset'), 0)
+  if (offset === null) return { error: 'offset must be a non-negative integer' }
+
+  let fields: LeaderboardField[] | null = null
+  const fieldsParam = params.get('fields')
+  if (fieldsParam !== null) {
+    const requested = fieldsParam.split(',').map(field => field.trim()).filter(Boolean)
+    const unknown = requested.filter(field => !(LEADERBOARD_FIELDS as readonly string[]).includes(field))
+    if (unknown.length > 0) {
+      return { error: `Unknown fields: ${unknown.join(', ')}. Pick from ${LEADERBOARD_FIELDS.join(', ')}` }
+    }
+    fields = requested as LeaderboardField[]
+  }
+
+  return {
+    query: {
+      range: from ? null : (range as TimeRange | null) ?? 'week',
+      from,
+      to,
+      sort: sort as ApiSort,
+      order: order as ApiOrder,
+      limit,
+      offset,
+      fields,
+    },
+  }
+}
+
+/**
+ * Active members with contest stats, period stats and points, like the dashboard loads them
+ */
+async function loadMembers(): Promise<{ users: UserData[], scoring: ScoringFormula }> {
+  const roster = await getActiveRoster()
+  const cachedUsers = await findCachedUsers(roster.map(user => user.username))
+  const scoring = await getActiveScoringFormula()
+  const users = attachPoints(
+    await attachContestStats(await attachPeriodStats(toRosterUserData(roster, cachedUsers))),
+    scoring
+  )
+  return { users, scoring }
+}
+
+/**
+ * Progress between two days, both inclusive, rebuilt from daily snapshots.
+ * Without `to` the progress runs up to the current totals. Streaks are the ones at the end.
+ */
+async function attachWindowStats(
+  users: UserData[],
+  from: Date,
+  to: Date | null,
+  scoring: ScoringFormula,
+  now: Date
+): Promise<UserData[]> {
+  const userIds = users.map(user => user.id)
+  const [earliestByUser, baselines] = await Promise.all([
+    findEarliestSnapshots(userIds),
+    findSnapshotsAsOf(userIds, new Date(from.getTime() - MS_IN_DAY)),
+  ])
+  const endsInPast = to !== null && to < startOfUtcDay(now)
+  const ends = endsInPast ? await findSnapshotsAsOf(userIds, to) : null
+
+  return users.map(user => {
+    let end = user
+    if (ends) {
+      const snapshot = ends.get(user.id)
+      end = snapshot
+        ? {
+            ...user,
+            totalSolved: snapshot.totalSolved,
+            problemsByDifficulty: { easy: snapshot.easyCount, medium: snapshot.mediumCount, hard: snapshot.hardCount },
+            submissions: snapshot.submissions,
+            streak: { current: snapshot.currentStreak, max: snapshot.maxStreak },
+          }
+        : { ...user, streak: { current: 0, max: 0 } }
+    }
+
+    // Not tracked yet at the end of the window, so nothing counts
+    const progress: PeriodStats = ends && !ends.has(user.id)
+      ? diffFromSnapshot(end, undefined)
+      : diffFromSnapshot(end, baselines.get(user.id) ?? earliestByUser.get(user.id))
+
+    // Like week, month and year points: streaks and contests are not tracked per window
+    return { ...end, ...progress, points: calculateSolvePoints(progress, scoring) }
+  })
+}
+
+function toApiSolved(user: Pick<UserData, 'totalSolved' | 'problemsByDifficulty'>): ApiSolved {
+  return { total: user.totalSolved, ...user.problemsByDifficulty }
+}
+
+function toApiStreak(user: UserData): ApiStreak {
+  return {
+    current: user.streak?.current || 0,
+    max: user.streak?.max || 0,
+    longest: user.streak?.longest || user.streak?.max || 0,
+  }
+}
+
+function toApiContest(user: UserData): ApiContest | null {
+  if (!user.contest) return null
+  const { rating, globalRanking, topPercentage, attendedContests, badge } = user.contest
+  return { rating, globalRanking, topPercentage, attendedContests, badge }
+}
+
+function pickFields(entry: ApiLeaderboardEntry, fields: LeaderboardField[] | null): Partial<ApiLeaderboardEntry> {
+  if (!fields) return entry
+
+  const picked: Partial<ApiLeaderboardEntry> = { rank: entry.rank, username: entry.username }
+  for (const field of fields) {
+    Object.assign(picked, { [field]: entry[field] })
+  }
+  return picked
+}
+
+/**
+ * One page of the leaderboard for the query
+ */
+export async function getApiLeaderboard(query: LeaderboardQuery, now = new Date()): Promise<ApiLeaderboard> {
+  const { users, scoring } = await loadMembers()
+
+  let view = users
+  if (query.from) {
+    view = users.length > 0 ? await attachWindowStats(users, query.from, query.to, scoring, now) : []
+  } else if (query.range && query.range !== 'all') {
+    const period = query.range
+    view = users.map(user => (user.periods ? { ...user, ...user.periods[period] } : user))
+  }
+
+  const ranked = rankUsers(view, API_SORTS[query.sort])
+  const entries: ApiLeaderboardEntry[] = ranked.map((user, index) => ({
+    rank: index + 1,
+    username: user.id,
+    name: user.name,
+    avatar: user.avatar,
+    solved: toApiSolved(user),
+    points: user.points ?? 0,
+    submissions: user.submissions,
+    streak: toApiStreak(user),
+    contest: toApiContest(user),
+    unreachable: user.unreachable ?? false,
+  }))
+  if (query.order === 'asc') entries.reverse()
+
+  return {
+    data: entries
+      .slice(query.offset, query.offset + query.limit)
+      .map(entry => pickFields(entry, query.fields)),
+    meta: {
+      range: query.range,
+      from: formatDay(query.from),
+      to: formatDay(query.to),
+      sort: query.sort,
+      order: query.order,
+      limit: query.limit,
+      offset: query.offset,
+      total: entries.length,
+      scoring: scoring.id,
+      generatedAt: now.toISOString(),
+    },
+  }
+}
+
+/**
+ * One active member with all-time totals, period progress and all-time ranks.
+ * Returns null when the member is not on the roster or has never been fetched.
+ */
+export async function getApiUser(username: string): Promise<ApiUser | null> {
+  const { users } = await loadMembers()
+  const member = users.find(user => user.id.toLowerCase() === username.toLowerCase())
+  if (!member) return null
+
+  const [user] = await attachAchievements([member])
+
+  const ranks = {} as ApiUser['ranks']
+  for (const sort of Object.keys(API_SORTS) as ApiSort[]) {
+    ranks[sort] = {
+      position: rankPositions(users, API_SORTS[sort]).get(user.id)!,
+      of: users.length,
+    }
+  }
+
+  const periods = {} as ApiUser['periods']
+  for (const period of Object.keys(PERIOD_DAYS) as Period[]) {
+    const progress = user.periods?.[period]
+    periods[period] = {
+      solved: toApiSolved(progress ?? { totalSolved: 0, problemsByDifficulty: { easy: 0, medium: 0, hard: 0 } }),
+      submissions: progress?.submissions ?? 0,
+      points: progress?.points ?? 0,
+    }
+  }
+
+  return {
+    username: user.id,
+    name: user.name,
+    avatar: user.avatar,
+    solved: toApiSolved(user),
+    points: user.points ?? 0,
+    submissions: user.submissions,
+    totalSubmissions: user.totalSubmissions,
+    acceptanceRate: acceptanceRate(user),
+    streak: toApiStreak(user),
+    contest: toApiContest(user),
+    periods,
+    ranks,
+    achievements: (user.achievements ?? []).flatMap(unlock => {
+      const achievement = findAchievement(unlock.achievementId)
+      return achievement ? [{ id: achievement.id, name: achievement.name, unlockedAt: unlock.unlockedAt }] : []
+    }),
+    unreachable: user.unreachable ?? false,
+  }
+}
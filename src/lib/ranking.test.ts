@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest'
+import { rankPositions, rankUsers, Standing } from '@/lib/ranking'
+
+function standing(id: string, totalSolved: number, points: number): Standing {
+  return {
+    id,
+    totalSolved,
+    problemsByDifficulty: { easy: totalSolved, medium: 0, hard: 0 },
+    submissions: 0,
+    streak: { current: 0, max: 0 },
+    points,
+  }
+}
+
+describe('rankUsers', () => {
+  it('breaks ties on the metric by problems solved, like the dashboard', () => {
+    const users = [standing('alice', 10, 50), standing('bob', 20, 50), standing('carol', 5, 60)]
+    expect(rankUsers(users, 'points').map(user => user.id)).toEqual(['carol', 'bob', 'alice'])
+  })
+
+  it('keeps the input order for full ties', () => {
+    const users = [standing('alice', 10, 50), standing('bob', 10, 50)]
+    expect(rankPositions(users, 'points')).toEqual(new Map([['alice', 1], ['bob', 2]]))
+  })
+})
@@ -0,0 +1,49 @@
+import { RankingMetric, UserData } from '@/lib/types'
+
+// The numbers a ranking looks at; past standings rebuilt from snapshots have only these
+export type Standing = Pick<UserData, 'id' | 'totalSolved' | 'problemsByDifficulty' | 'submissions' | 'streak' | 'points'>
+
+export const RANKING_METRICS: RankingMetric[] = ['problems', 'points', 'submissions', 'streaks']
+
+export const RANKING_METRIC_LABELS: Record<RankingMetric, string> = {
+  problems: 'Problems Solved',
+  points: 'Points',
+  submissions: 'Submissions',
+  streaks: 'Streaks',
+}
+
+export function metricValue(user: Standing, metric: RankingMetric): number {
+  switch (metric) {
+    case 'problems':
+      return user.totalSolved
+    case 'points':
+      return user.points ?? 0
+    case 'submissions':
+      return user.submissions
+    case 'streaks':
+      return user.streak?.max || 0
+  }
+}
+
+/**
+ * Best first for the metric. The dashboard lists members by problems solved before
+ * sorting a tab, so ties go to whoever solved more.
+ */
+export function compareStandings(a: Standing, b: Standing, metric: RankingMetric): number {
+  return metricValue(b, metric) - metricValue(a, metric) || b.totalSolved - a.totalSolved
+}
+
+/**
+ * Sorts users the way the dashboard tab for the metric does, best first.
+ * The sort is stable, so full ties keep their input order.
+ */
+export function rankUsers<T extends Standing>(users: T[], metric: RankingMetric): T[] {
+  return [...users].sort((a, b) => compareStandings(a, b, metric))
+}
+
+/**
+ * 1-based position of each user id for the metric
+ */
+export function rankPositions(users: Standing[], metric: RankingMetric): Map<string, number> {
+  return new Map(rankUsers(users, metric).map((user, index) => [user.id, index + 1]))
+}
@@ -0,0 +1,346 @@
+import { randomUUID } from "crypto"
+import { LeetCodeUser, TrackedUser } from "@prisma/client"
+import { UserProfile } from "leetcode-query"
+import {
+  FetchErrorClass,
+  FetchQueueResult,
+  NotFoundError,
+  runFetchQueue,
+} from "@/lib/fetch-queue"
+import { storedAchievementInput, unlockAchievements } from "@/lib/achievement-unlocks"
+import { AchievementInput } from "@/lib/achievements"
+import { ingestContestInfo } from "@/lib/contests"
+import { storeDailyQuestion } from "@/lib/daily"
+import leetcode from "@/lib/leetcode"
+import { recordFetchOutcomes, recordRunSummary } from "@/lib/fetch-logs"
+import { findCachedUsers, isStale, toRosterUserData } from "@/lib/leaderboard"
+import { detectEvents } from "@/lib/notifications"
+import { prisma } from "@/lib/prisma"
+import { getActiveRoster, recordFetchResults } from "@/lib/roster"
+import { getLongestRecordedStreak, recordSnapshot } from "@/lib/snapshots"
+import { calculateStreaks, parseSubmissionCalendar, SubmissionCalendar } from "@/lib/streaks"
+import { ingestRecentSubmissions } from "@/lib/submissions"
+import { ErrorData, UserData } from "@/lib/types"
+import { deliverEvents } from "@/lib/webhooks"
+
+// Leave headroom below the host's function timeout (60s on Vercel)
+export const DEFAULT_TIME_BUDGET_MS = 50 * 1000
+
+// Share of the budget spent fetching; the rest is kept for saving what was fetched
+const FETCH_BUDGET_SHARE = 0.7
+
+export interface FetchFailure extends ErrorData {
+  errorClass: FetchErrorClass | "save_failed";
+  httpStatus?: number;
+  attempts: number;
+}
+
+export interface SaveResult {
+  unlockedAchievements: string[];
+}
+
+export interface RefreshReport {
+  runId: string;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  refreshed: string[];
+  failed: FetchFailure[];
+  skipped: string[]; // stale users left for the next run because the time budget ran out
+  upToDate: number;
+}
+
+/**
+ * Saves user data to the database. Throws when the user row or snapshot cannot be written.
+ * Returns the achievements the save unlocked, leaving out backfilled ones.
+ */
+export async function saveUserData(userData: UserData): Promise<SaveResult> {
+  // Judged again after saving, so milestones the old numbers already met are not announced as new
+  let previousAchievementInput: AchievementInput | null = null
+  try {
+    previousAchievementInput = await storedAchievementInput(userData.id)
+  } catch (error) {
+    console.error(`Failed to read the stored achievement numbers for ${userData.id}:`, error)
+  }
+
+  // Keep the longest streak we have ever seen, even once it drops out of LeetCode's calendar
+  const longestStreak = Math.max(
+    userData.streak?.longest || 0,
+    await getLongestRecordedStreak(userData.id)
+  );
+
+  // First upsert the user
+  await prisma.leetCodeUser.upsert({
+    where: { id: userData.id },
+    update: {
+      name: userData.name,
+      avatar: userData.avatar,
+      totalSolved: userData.totalSolved,
+      easyCount: userData.problemsByDifficulty.easy,
+      mediumCount: userData.problemsByDifficulty.medium,
+      hardCount: userData.problemsByDifficulty.hard,
+      submissions: userData.submissions,
+      totalSubmissions: userData.totalSubmissions,
+      currentStreak: userData.streak?.current || 0,
+      maxStreak: userData.streak?.max || 0,
+      longestStreak,
+      submissionCalendar: userData.submissionCalendar,
+      lastFetch: new Date(),
+    },
+    create: {
+      id: userData.id,
+      name: userData.name,
+      avatar: userData.avatar,
+      totalSolved: userData.totalSolved,
+      easyCount: userData.problemsByDifficulty.easy,
+      mediumCount: userData.problemsByDifficulty.medium,
+      hardCount: userData.problemsByDifficulty.hard,
+      submissions: userData.submissions,
+      totalSubmissions: userData.totalSubmissions,
+      currentStreak: userData.streak?.current || 0,
+      maxStreak: userData.streak?.max || 0,
+      longestStreak,
+      submissionCalendar: userData.submissionCalendar,
+    }
+  });
+
+  // Record today's totals for the week/month/year views
+  await recordSnapshot(userData);
+
+  // Pull recently solved problems; a failure here shouldn't lose the stats above
+  try {
+    await ingestRecentSubmissions(userData.id);
+  } catch (error) {
+    console.error(`Failed to ingest submissions for ${userData.id}:`, error);
+  }
+
+  try {
+    await ingestContestInfo(userData.id);
+  } catch (error) {
+    console.error(`Failed to ingest contest data for ${userData.id}:`, error);
+  }
+
+  // Judged last, on the snapshot and contest data saved above
+  let unlockedAchievements: string[] = [];
+  try {
+    unlockedAchievements = await unlockAchievements(userData, longestStreak, previousAchievementInput);
+  } catch (error) {
+    console.error(`Failed to unlock achievements for ${userData.id}:`, error);
+  }
+
+  return { unlockedAchievements };
+}
+
+/**
+ * Fetches a user's data from the LeetCode GraphQL API
+ */
+async function fetchLeetCodeUser(username: string): Promise<UserProfile> {
+  const user = await leetcode.user(username)
+  if (!user.matchedUser) {
+    throw new NotFoundError(`LeetCode user ${username} does not exist`)
+  }
+  return user
+}
+
+/**
+ * Fetches multiple users through the rate-limited queue.
+ * Every started user gets an outcome describing how the fetch went.
+ */
+export async function fetchUsersInParallel(
+  usernames: string[],
+  deadline?: number
+): Promise<FetchQueueResult<UserProfile>> {
+  const result = await runFetchQueue(usernames, fetchLeetCodeUser, { deadline })
+
+  for (const outcome of result.outcomes.values()) {
+    if (!outcome.ok) {
+      console.error(
+        `Failed to fetch user data for ${outcome.key} after ${outcome.attempts} attempts (${outcome.errorClass}):`,
+        outcome.error
+      )
+    }
+  }
+
+  return result
+}
+
+/**
+ * Processes the user data from LeetCode API.
+ * Results and users are keyed by the roster username that was requested.
+ */
+export function processUserData(
+  results: Map<string, UserProfile | null | undefined>
+): { users: Map<string, UserData>, errors: ErrorData[] } {
+  const users = new Map<string, UserData>()
+  const errors: ErrorData[] = []
+
+  for (const [username, result] of results) {
+    if (!result || !result.matchedUser) {
+      errors.push({
+        username,
+        error: "Failed to fetch user data",
+      })
+      continue
+    }
+
+    const {
+      username: leetUsername,
+      profile,
+      submitStats,
+      submissionCalendar
+    } = result.matchedUser
+
+    // Extract problem counts by difficulty
+    const easy = submitStats?.acSubmissionNum?.find((s) => s.difficulty === "Easy")?.count || 0
+    const medium = submitStats?.acSubmissionNum?.find((s) => s.difficulty === "Medium")?.count || 0
+    const hard = submitStats?.acSubmissionNum?.find((s) => s.difficulty === "Hard")?.count || 0
+
+    // Extract submission timestamps (if available)
+    let calendar: SubmissionCalendar = {}
+    try {
+      calendar = parseSubmissionCalendar(submissionCalendar)
+    } catch (e) {
+      console.error(`Failed to parse submission calendar for ${username}:`, e)
+    }
+    const acceptedSubmissions = Object.keys(calendar).map((timestamp) => parseInt(timestamp))
+
+    // Get accepted and overall submission counts
+    const acceptedSubmissionCount = submitStats?.acSubmissionNum?.find(
+      (s) => s.difficulty === "All"
+    )?.submissions || 0
+    const totalSubmissions = submitStats?.totalSubmissionNum?.find(
+      (s) => s.difficulty === "All"
+    )?.submissions || 0
+
+    // Calculate streak from submission calendar instead of profile.streak
+    const streak = calculateStreaks(calendar)
+
+    users.set(username, {
+      id: leetUsername,
+      name: profile?.realName || leetUsername,
+      avatar: profile?.userAvatar || '',
+      totalSolved: easy + medium + hard,
+      problemsByDifficulty: {
+        easy,
+        medium,
+        hard,
+      },
+      submissions: acceptedSubmissionCount,
+      totalSubmissions,
+      acceptedSubmissions,
+      submissionCalendar: calendar,
+      streak
+    })
+  }
+
+  return { users, errors }
+}
+
+/**
+ * Sends webhook events for what changed between the cached rows from before the
+ * refresh and the freshly saved ones. Never throws; notifications are best effort.
+ */
+async function notifyChanges(
+  roster: TrackedUser[],
+  previousUsers: Map<string, LeetCodeUser>,
+  unlocked: Map<string, string[]>
+): Promise<void> {
+  try {
+    const currentUsers = await findCachedUsers(roster.map(user => user.username))
+    // Recomputed streaks would already show a streak that broke since the last fetch as 0
+    const events = detectEvents(
+      toRosterUserData(roster, previousUsers, { storedStreaks: true }),
+      toRosterUserData(roster, currentUsers),
+      unlocked
+    )
+    await deliverEvents(events)
+  } catch (error) {
+    console.error("Failed to send notifications:", error)
+  }
+}
+
+/**
+ * Refreshes every stale active member, oldest first, within the given time budget.
+ * Members the queue could not start before its deadline are left for the next run.
+ * Every fetched user gets a FetchLog record tagged with the run id, and the run itself gets a summary record.
+ */
+export async function refreshStaleUsers(timeBudgetMs = DEFAULT_TIME_BUDGET_MS): Promise<RefreshReport> {
+  const runId = randomUUID()
+  const startedAt = Date.now()
+
+  const roster = await getActiveRoster()
+  const cachedUsers = await findCachedUsers(roster.map(user => user.username))
+  const lastFetchOf = (username: string) => cachedUsers.get(username)?.lastFetch ?? null
+
+  // Never-fetched members first, then the longest-stale ones
+  const staleUsers = roster
+    .map(user => user.username)
+    .filter(username => isStale(lastFetchOf(username), startedAt))
+    .sort((a, b) => (lastFetchOf(a)?.getTime() ?? 0) - (lastFetchOf(b)?.getTime() ?? 0))
+
+  // Stored before saving anyone so today's solves can be matched; the dashboard only reads it
+  try {
+    await storeDailyQuestion()
+  } catch (error) {
+    console.error("Failed to store the daily question:", error)
+  }
+
+  const { outcomes, skipped } = await fetchUsersInParallel(
+    staleUsers,
+    startedAt + timeBudgetMs * FETCH_BUDGET_SHARE
+  )
+
+  const { users } = processUserData(
+    new Map([...outcomes].map(([username, outcome]) => [username, outcome.value]))
+  )
+
+  // A failed save is reported against the user like a failed fetch
+  const saveErrors = new Map<string, string>()
+  const unlocked = new Map<string, string[]>()
+  await Promise.all([...users].map(async ([username, user]) => {
+    try {
+      const { unlockedAchievements } = await saveUserData(user)
+      unlocked.set(user.id, unlockedAchievements)
+    } catch (error) {
+      console.error(`Failed to save user data for ${username}:`, error)
+      saveErrors.set(username, error instanceof Error ? error.message : 'Unknown error')
+    }
+  }))
+
+  await recordFetchOutcomes(runId, outcomes, saveErrors)
+
+  const refreshed = [...users.keys()].filter(username => !saveErrors.has(username))
+  const failed: FetchFailure[] = [...outcomes.values()]
+    .filter(outcome => !outcome.ok || saveErrors.has(outcome.key))
+    .map(outcome => {
+      const saveError = saveErrors.get(outcome.key)
+      return {
+        username: outcome.key,
+        error: saveError || outcome.error || "Failed to fetch user data",
+        errorClass: saveError ? "save_failed" : outcome.errorClass || "unknown",
+        httpStatus: outcome.httpStatus,
+        attempts: outcome.attempts,
+      }
+    })
+
+  // Persist consecutive failures so repeatedly failing members can be flagged as unreachable
+  await recordFetchResults(refreshed, failed)
+
+  if (refreshed.length > 0) {
+    await notifyChanges(roster, cachedUsers, unlocked)
+  }
+
+  const finishedAt = Date.now()
+  await recordRunSummary(runId, { startedAt, finishedAt, refreshed, failed, skipped })
+
+  return {
+    runId,
+    startedAt: new Date(startedAt).toISOString(),
+    finishedAt: new Date(finishedAt).toISOString(),
+    durationMs: finishedAt - startedAt,
+    refreshed,
+    failed,
+    skipped,
+    upToDate: roster.length - staleUsers.length,
+  }
+}
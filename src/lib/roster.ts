@@ -0,0 +1,60 @@
+import { TrackedUser } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { ErrorData, UnreachableUser } from '@/lib/types'
+
+// Members whose last this many refreshes all failed are shown as unreachable
+export const UNREACHABLE_AFTER_FAILURES = 3
+
+/**
+ * Returns the members that should currently appear on the leaderboard
+ */
+export async function getActiveRoster(): Promise<TrackedUser[]> {
+  return prisma.trackedUser.findMany({
+    where: { active: true },
+    orderBy: { joinedAt: 'asc' },
+  })
+}
+
+/**
+ * Returns every tracked member, including deactivated ones
+ */
+export async function getFullRoster(): Promise<TrackedUser[]> {
+  return prisma.trackedUser.findMany({
+    orderBy: { joinedAt: 'asc' },
+  })
+}
+
+export function isUnreachable(user: TrackedUser): boolean {
+  return user.consecutiveFailures >= UNREACHABLE_AFTER_FAILURES
+}
+
+export function toUnreachableUser(user: TrackedUser): UnreachableUser {
+  return {
+    username: user.username,
+    consecutiveFailures: user.consecutiveFailures,
+    lastError: user.lastError,
+    lastFailureAt: user.lastFailureAt?.toISOString() ?? null,
+  }
+}
+
+/**
+ * Resets the failure counter of refreshed members and increments it for failed ones
+ */
+export async function recordFetchResults(succeeded: string[], failed: ErrorData[]): Promise<void> {
+  const now = new Date()
+
+  await prisma.$transaction([
+    prisma.trackedUser.updateMany({
+      where: { username: { in: succeeded } },
+      data: { consecutiveFailures: 0 },
+    }),
+    ...failed.map(failure => prisma.trackedUser.updateMany({
+      where: { username: failure.username },
+      data: {
+        consecutiveFailures: { increment: 1 },
+        lastFailureAt: now,
+        lastError: failure.error,
+      },
+    })),
+  ])
+}
@@ -0,0 +1,116 @@
+import { Prisma, ScoringPreset } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import {
+  BUILT_IN_SCORING_PRESETS,
+  calculatePoints,
+  calculateSolvePoints,
+  DEFAULT_SCORING_PRESET,
+  ScoringFormula,
+} from '@/lib/scoring'
+import { UserData } from '@/lib/types'
+
+export interface ScoringPresetList {
+  presets: ScoringFormula[];
+  activeId: string;
+}
+
+function toFormula(preset: ScoringPreset): ScoringFormula {
+  return {
+    id: preset.id,
+    name: preset.name,
+    description: preset.description,
+    easy: preset.easy,
+    medium: preset.medium,
+    hard: preset.hard,
+    streakDay: preset.streakDay,
+    contest: preset.contest,
+  }
+}
+
+const builtInOrder = (id: string) => {
+  const index = BUILT_IN_SCORING_PRESETS.findIndex(preset => preset.id === id)
+  return index === -1 ? BUILT_IN_SCORING_PRESETS.length : index
+}
+
+/**
+ * Returns every preset, creating the built-in ones the first time.
+ * Admin edits to a built-in preset are kept; only missing ones are added.
+ */
+export async function getScoringPresets(): Promise<ScoringPresetList> {
+  let rows = await prisma.scoringPreset.findMany()
+
+  const missing = BUILT_IN_SCORING_PRESETS.filter(preset => !rows.some(row => row.id === preset.id))
+  if (missing.length > 0) {
+    const hasActive = rows.some(row => row.active)
+    await prisma.scoringPreset.createMany({
+      data: missing.map(preset => ({
+        ...preset,
+        active: !hasActive && preset.id === DEFAULT_SCORING_PRESET,
+      })),
+      skipDuplicates: true,
+    })
+    rows = await prisma.scoringPreset.findMany()
+  }
+
+  rows.sort((a, b) => builtInOrder(a.id) - builtInOrder(b.id))
+  const active = rows.find(row => row.active) ?? rows.find(row => row.id === DEFAULT_SCORING_PRESET)
+
+  return {
+    presets: rows.map(toFormula),
+    activeId: active?.id ?? DEFAULT_SCORING_PRESET,
+  }
+}
+
+/**
+ * The formula the leaderboard currently scores with.
+ * Falls back to the built-in classic formula if presets cannot be read.
+ */
+export async function getActiveScoringFormula(): Promise<ScoringFormula> {
+  try {
+    const { presets, activeId } = await getScoringPresets()
+    return presets.find(preset => preset.id === activeId)!
+  } catch (error) {
+    console.error('Failed to load scoring presets:', error)
+    return BUILT_IN_SCORING_PRESETS.find(preset => preset.id === DEFAULT_SCORING_PRESET)!
+  }
+}
+
+/**
+ * Makes one preset the active one. Throws Prisma's P2025 when it does not exist.
+ */
+export async function activateScoringPreset(id: string): Promise<void> {
+  await prisma.$transaction([
+    prisma.scoringPreset.updateMany({
+      where: { id: { not: id } },
+      data: { active: false },
+    }),
+    prisma.scoringPreset.update({
+      where: { id },
+      data: { active: true },
+    }),
+  ])
+}
+
+export async function updateScoringPreset(
+  id: string,
+  data: Prisma.ScoringPresetUpdateInput
+): Promise<ScoringFormula> {
+  return toFormula(await prisma.scoringPreset.update({ where: { id }, data }))
+}
+
+/**
+ * Adds all-time and per-period points. Streak and contest terms only count
+ * towards the all-time total, since neither is tracked per period.
+ * Attach contest stats first so contest participation counts.
+ */
+export function attachPoints(users: UserData[], formula: ScoringFormula): UserData[] {
+  return users.map(user => ({
+    ...user,
+    points: calculatePoints({ ...user, attendedContests: user.contest?.attendedContests }, formula),
+    periods: user.periods && {
+      week: { ...user.periods.week, points: calculateSolvePoints(user.periods.week, formula) },
+      month: { ...user.periods.month, points: calculateSolvePoints(user.periods.month, formula) },
+      year: { ...user.periods.year, points: calculateSolvePoints(user.periods.year, formula) },
+    },
+  }))
+}
@@ -0,0 +1,100 @@
+import { UserData } from '@/lib/types'
+
+// Shared by the server, which computes points, and the client, which shows the formula
+
+/**
+ * Points awarded per solved problem, per day of the current streak and per contest attended
+ */
+export interface ScoringWeights {
+  easy: number;
+  medium: number;
+  hard: number;
+  streakDay: number;
+  contest: number;
+}
+
+export interface ScoringFormula extends ScoringWeights {
+  id: string;
+  name: string;
+  description: string;
+}
+
+export type ScoringInput = Pick<UserData, 'problemsByDifficulty' | 'streak'> & {
+  attendedContests?: number;
+}
+
+export const DEFAULT_SCORING_PRESET = 'classic'
+
+export const BUILT_IN_SCORING_PRESETS: ScoringFormula[] = [
+  {
+    id: 'classic',
+    name: 'Classic',
+    description: '1, 2 and 3 points for Easy, Medium and Hard problems',
+    easy: 1,
+    medium: 2,
+    hard: 3,
+    streakDay: 0,
+    contest: 0,
+  },
+  {
+    id: 'steep',
+    name: 'Steep',
+    description: '1, 3 and 5 points, so harder problems count for more',
+    easy: 1,
+    medium: 3,
+    hard: 5,
+    streakDay: 0,
+    contest: 0,
+  },
+  {
+    id: 'all-rounder',
+    name: 'All-rounder',
+    description: 'Classic points plus 1 per day of the current streak and 5 per contest attended',
+    easy: 1,
+    medium: 2,
+    hard: 3,
+    streakDay: 1,
+    contest: 5,
+  },
+]
+
+/**
+ * Points for solved problems alone. Week, month and year points use only these,
+ * since streaks and contests are not tracked per period.
+ */
+export function calculateSolvePoints(input: Pick<UserData, 'problemsByDifficulty'>, weights: ScoringWeights): number {
+  return (
+    input.problemsByDifficulty.easy * weights.easy +
+    input.problemsByDifficulty.medium * weights.medium +
+    input.problemsByDifficulty.hard * weights.hard
+  )
+}
+
+/**
+ * All-time points: solved problems plus the current streak and every contest attended
+ */
+export function calculatePoints(input: ScoringInput, weights: ScoringWeights): number {
+  return (
+    calculateSolvePoints(input, weights) +
+    (input.streak?.current || 0) * weights.streakDay +
+    (input.attendedContests || 0) * weights.contest
+  )
+}
+
+/**
+ * One-line summary of a formula, e.g. "1 / 2 / 3 per Easy / Medium / Hard + 1 per streak day"
+ */
+export function describeWeights(weights: ScoringWeights): string {
+  const parts = [`${weights.easy} / ${weights.medium} / ${weights.hard} per Easy / Medium / Hard`]
+  if (weights.streakDay) parts.push(`${weights.streakDay} per streak day`)
+  if (weights.contest) parts.push(`${weights.contest} per contest`)
+  return parts.join(' + ')
+}
+
+/**
+ * Share of all submissions that were accepted, as a percentage; null before any submission
+ */
+export function acceptanceRate(user: Pick<UserData, 'submissions' | 'totalSubmissions'>): number | null {
+  if (user.totalSubmissions <= 0) return null
+  return Math.round((user.submissions / user.totalSubmissions) * 1000) / 10
+}
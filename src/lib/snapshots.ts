@@ -0,0 +1,163 @@
+import { UserStatSnapshot } from '@prisma/client'
+import { MS_IN_DAY, Period, PERIOD_DAYS } from '@/lib/periods'
+import { prisma } from '@/lib/prisma'
+import { PeriodStats, UserData } from '@/lib/types'
+
+export type SnapshotTotals = Pick<
+  UserStatSnapshot,
+  | 'userId' | 'totalSolved' | 'easyCount' | 'mediumCount' | 'hardCount' | 'submissions'
+  | 'currentStreak' | 'maxStreak'
+>
+
+const totalsSelect = {
+  userId: true,
+  totalSolved: true,
+  easyCount: true,
+  mediumCount: true,
+  hardCount: true,
+  submissions: true,
+  currentStreak: true,
+  maxStreak: true,
+} as const
+
+/**
+ * Returns midnight UTC of the day containing the given date
+ */
+export function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+}
+
+/**
+ * Writes (or overwrites) today's snapshot for a user.
+ * The user must already exist in leetcode_users.
+ */
+export async function recordSnapshot(userData: UserData, now = new Date()): Promise<void> {
+  const date = startOfUtcDay(now)
+  const stats = {
+    totalSolved: userData.totalSolved,
+    easyCount: userData.problemsByDifficulty.easy,
+    mediumCount: userData.problemsByDifficulty.medium,
+    hardCount: userData.problemsByDifficulty.hard,
+    submissions: userData.submissions,
+    currentStreak: userData.streak?.current || 0,
+    maxStreak: userData.streak?.max || 0,
+  }
+
+  await prisma.userStatSnapshot.upsert({
+    where: { userId_date: { userId: userData.id, date } },
+    update: stats,
+    create: { userId: userData.id, date, ...stats },
+  })
+}
+
+/**
+ * Longest streak found in a user's stored history, from the user row and all snapshots
+ */
+export async function getLongestRecordedStreak(userId: string): Promise<number> {
+  const [user, snapshots] = await Promise.all([
+    prisma.leetCodeUser.findUnique({
+      where: { id: userId },
+      select: { longestStreak: true },
+    }),
+    prisma.userStatSnapshot.aggregate({
+      where: { userId },
+      _max: { maxStreak: true },
+    }),
+  ])
+
+  return Math.max(
+    user?.longestStreak || 0,
+    snapshots._max.maxStreak || 0
+  )
+}
+
+/**
+ * Each user's latest snapshot taken on or before the given day
+ */
+export async function findSnapshotsAsOf(userIds: string[], date: Date): Promise<Map<string, SnapshotTotals>> {
+  const snapshots = await prisma.userStatSnapshot.findMany({
+    where: { userId: { in: userIds }, date: { lte: date } },
+    orderBy: { date: 'desc' },
+    distinct: ['userId'],
+    select: totalsSelect,
+  })
+  return new Map(snapshots.map(snapshot => [snapshot.userId, snapshot]))
+}
+
+/**
+ * Each user's first snapshot
+ */
+export async function findEarliestSnapshots(userIds: string[]): Promise<Map<string, SnapshotTotals>> {
+  const snapshots = await prisma.userStatSnapshot.findMany({
+    where: { userId: { in: userIds } },
+    orderBy: { date: 'asc' },
+    distinct: ['userId'],
+    select: totalsSelect,
+  })
+  return new Map(snapshots.map(snapshot => [snapshot.userId, snapshot]))
+}
+
+/**
+ * Difference between the user's current totals and a baseline snapshot
+ */
+export function diffFromSnapshot(user: UserData, baseline: SnapshotTotals | undefined): PeriodStats {
+  if (!baseline) {
+    // No history yet, so nothing can be attributed to the period
+    return {
+      totalSolved: 0,
+      problemsByDifficulty: { easy: 0, medium: 0, hard: 0 },
+      submissions: 0,
+    }
+  }
+
+  return {
+    totalSolved: Math.max(0, user.totalSolved - baseline.totalSolved),
+    problemsByDifficulty: {
+      easy: Math.max(0, user.problemsByDifficulty.easy - baseline.easyCount),
+      medium: Math.max(0, user.problemsByDifficulty.medium - baseline.mediumCount),
+      hard: Math.max(0, user.problemsByDifficulty.hard - baseline.hardCount),
+    },
+    submissions: Math.max(0, user.submissions - baseline.submissions),
+  }
+}
+
+/**
+ * Adds week/month/year progress to each user.
+ *
+ * The baseline for a period is the latest snapshot taken on or before the
+ * period's first day. Members tracked for less than the full period are
+ * compared against their earliest snapshot instead.
+ */
+export async function attachPeriodStats(users: UserData[], now = new Date()): Promise<UserData[]> {
+  if (users.length === 0) return users
+
+  const userIds = users.map(user => user.id)
+  const today = startOfUtcDay(now)
+
+  try {
+    const earliestByUser = await findEarliestSnapshots(userIds)
+
+    const baselines = {} as Record<Period, Map<string, SnapshotTotals>>
+    for (const period of Object.keys(PERIOD_DAYS) as Period[]) {
+      const cutoff = new Date(today.getTime() - PERIOD_DAYS[period] * MS_IN_DAY)
+      baselines[period] = await findSnapshotsAsOf(userIds, cutoff)
+    }
+
+    return users.map(user => {
+      const baselineFor = (period: Period) =>
+        baselines[period].get(user.id) ?? earliestByUser.get(user.id)
+
+      return {
+        ...user,
+        periods: {
+          week: diffFromSnapshot(user, baselineFor('week')),
+          month: diffFromSnapshot(user, baselineFor('month')),
+          year: diffFromSnapshot(user, baselineFor('year')),
+        },
+      }
+    })
+  } catch (error) {
+    console.error('Failed to load stat snapshots:', error)
+    return users
+  }
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest'
+import { bucketByDay, calculateStreaks, dayNumber, SubmissionCalendar } from '@/lib/streaks'
+
+const NEW_YORK = 'America/New_York'
+
+/**
+ * A calendar with one submission at each instant
+ */
+function calendarOf(...instants: string[]): SubmissionCalendar {
+  const calendar: SubmissionCalendar = {}
+  for (const instant of instants) {
+    const timestamp = String(new Date(instant).getTime() / 1000)
+    calendar[timestamp] = (calendar[timestamp] || 0) + 1
+  }
+  return calendar
+}
+
+describe('dayNumber', () => {
+  it('counts Dec 31 and Jan 1 as consecutive days', () => {
+    const dec31 = dayNumber(new Date('2025-12-31T12:00:00Z'), 'UTC')
+    const jan1 = dayNumber(new Date('2026-01-01T12:00:00Z'), 'UTC')
+    expect(jan1 - dec31).toBe(1)
+  })
+
+  it('steps by one day across spring-forward in a non-UTC zone', () => {
+    // Clocks jump from 02:00 to 03:00 on Mar 9 2025, so that day has 23 hours
+    const before = dayNumber(new Date('2025-03-08T17:00:00Z'), NEW_YORK)
+    const during = dayNumber(new Date('2025-03-09T17:00:00Z'), NEW_YORK)
+    const after = dayNumber(new Date('2025-03-10T17:00:00Z'), NEW_YORK)
+    expect(during - before).toBe(1)
+    expect(after - during).toBe(1)
+  })
+
+  it('steps by one day across fall-back in a non-UTC zone', () => {
+    // Clocks fall back from 02:00 to 01:00 on Nov 2 2025, so that day has 25 hours
+    const before = dayNumber(new Date('2025-11-01T17:00:00Z'), NEW_YORK)
+    const during = dayNumber(new Date('2025-11-02T17:00:00Z'), NEW_YORK)
+    const after = dayNumber(new Date('2025-11-03T17:00:00Z'), NEW_YORK)
+    expect(during - before).toBe(1)
+    expect(after - during).toBe(1)
+  })
+
+  it('uses the local calendar day, not the UTC one', () => {
+    // 03:00 UTC on Jan 1 is still Dec 31 in New York
+    const instant = new Date('2026-01-01T03:00:00Z')
+    expect(dayNumber(instant, 'UTC') - dayNumber(instant, NEW_YORK)).toBe(1)
+  })
+})
+
+describe('bucketByDay', () => {
+  it('keeps every hour of the 23-hour spring-forward day together', () => {
+    // 00:30 EST and 23:30 EDT on Mar 9, which fall on different UTC days
+    const days = bucketByDay(calendarOf('2025-03-09T05:30:00Z', '2025-03-10T03:30:00Z'), NEW_YORK)
+    expect([...days.values()]).toEqual([2])
+  })
+
+  it('keeps every hour of the 25-hour fall-back day together', () => {
+    // 00:30 EDT, 01:30 EDT and 23:30 EST on Nov 2
+    const calendar = calendarOf('2025-11-02T04:30:00Z', '2025-11-02T05:30:00Z', '2025-11-03T04:30:00Z')
+    expect([...bucketByDay(calendar, NEW_YORK).values()]).toEqual([3])
+    expect(bucketByDay(calendar, 'UTC').size).toBe(2)
+  })
+
+  it('sums counts and skips empty days', () => {
+    const calendar = {
+      [String(Date.UTC(2025, 0, 1) / 1000)]: 2,
+      [String(Date.UTC(2025, 0, 1, 12) / 1000)]: 3,
+      [String(Date.UTC(2025, 0, 2) / 1000)]: 0,
+    }
+    const days = bucketByDay(calendar, 'UTC')
+    expect(days.size).toBe(1)
+    expect([...days.values()]).toEqual([5])
+  })
+})
+
+describe('calculateStreaks', () => {
+  it('continues a run from Dec 30 through Jan 1', () => {
+    const calendar = calendarOf('2025-12-30T10:00:00Z', '2025-12-31T10:00:00Z', '2026-01-01T10:00:00Z')
+    const streak = calculateStreaks(calendar, { timeZone: 'UTC', now: new Date('2026-01-01T20:00:00Z') })
+    expect(streak).toEqual({ current: 3, max: 3, longest: 3 })
+  })
+
+  it('continues a run across spring-forward and fall-back in a non-UTC zone', () => {
+    const spring = calendarOf('2025-03-09T04:30:00Z', '2025-03-10T03:30:00Z', '2025-03-11T03:30:00Z')
+    expect(calculateStreaks(spring, { timeZone: NEW_YORK, now: new Date('2025-03-11T12:00:00Z') }).current).toBe(3)
+
+    const fall = calendarOf('2025-11-02T03:30:00Z', '2025-11-03T04:30:00Z', '2025-11-04T04:30:00Z')
+    expect(calculateStreaks(fall, { timeZone: NEW_YORK, now: new Date('2025-11-04T12:00:00Z') }).current).toBe(3)
+  })
+
+  it('resets the current streak after a one-day gap', () => {
+    const calendar = calendarOf('2025-05-01T10:00:00Z', '2025-05-02T10:00:00Z', '2025-05-04T10:00:00Z')
+    const streak = calculateStreaks(calendar, { timeZone: 'UTC', now: new Date('2025-05-04T12:00:00Z') })
+    expect(streak.current).toBe(1)
+    expect(streak.max).toBe(2)
+  })
+
+  it('keeps the current streak until the end of the next day and not after', () => {
+    const calendar = calendarOf('2025-05-01T10:00:00Z', '2025-05-02T10:00:00Z')
+    const at = (now: string) => calculateStreaks(calendar, { timeZone: 'UTC', now: new Date(now) }).current
+
+    expect(at('2025-05-03T00:00:00Z')).toBe(2)
+    expect(at('2025-05-03T23:59:59Z')).toBe(2)
+    expect(at('2025-05-04T00:00:00Z')).toBe(0)
+  })
+
+  it('applies the next-day grace period in the streak timezone', () => {
+    // Last active on May 2 in New York, which ends at 04:00 UTC on May 4
+    const calendar = calendarOf('2025-05-02T14:00:00Z')
+    const at = (now: string) => calculateStreaks(calendar, { timeZone: NEW_YORK, now: new Date(now) }).current
+
+    expect(at('2025-05-04T03:59:59Z')).toBe(1)
+    expect(at('2025-05-04T04:00:00Z')).toBe(0)
+  })
+
+  it('carries over a longer previous longest streak', () => {
+    const calendar = calendarOf('2025-05-01T10:00:00Z', '2025-05-02T10:00:00Z')
+    const now = new Date('2025-05-02T12:00:00Z')
+
+    expect(calculateStreaks(calendar, { timeZone: 'UTC', now, previousLongest: 10 })).toEqual({
+      current: 2,
+      max: 2,
+      longest: 10,
+    })
+    expect(calculateStreaks(calendar, { timeZone: 'UTC', now, previousLongest: 1 }).longest).toBe(2)
+  })
+
+  it('returns zeros for an empty calendar', () => {
+    expect(calculateStreaks({}, { timeZone: 'UTC', previousLongest: 4 })).toEqual({ current: 0, max: 0, longest: 4 })
+  })
+})
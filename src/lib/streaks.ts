@@ -0,0 +1,126 @@
+// Streaks are counted in whole calendar days. A day counts when it has at
+// least one submission in the calendar; a streak is a run of consecutive
+// counted days. The current streak stays alive until the end of the day
+// after its last counted day, matching how LeetCode shows streaks.
+
+export interface StreakStats {
+  current: number;
+  max: number; // longest run within the supplied calendar
+  longest: number; // longest run ever recorded, including earlier calendars
+}
+
+export interface StreakOptions {
+  timeZone?: string;
+  now?: Date;
+  previousLongest?: number;
+}
+
+/** Maps unix timestamps (seconds, as strings) to submission counts */
+export type SubmissionCalendar = Record<string, number>
+
+const MS_IN_DAY = 24 * 60 * 60 * 1000
+
+const dayFormatters = new Map<string, Intl.DateTimeFormat>()
+
+/**
+ * Timezone used for day boundaries, from STREAK_TIMEZONE (defaults to UTC like LeetCode)
+ */
+export function getStreakTimeZone(): string {
+  const timeZone = process.env.STREAK_TIMEZONE || "UTC"
+
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone })
+    return timeZone
+  } catch {
+    console.error(`Invalid STREAK_TIMEZONE "${timeZone}", falling back to UTC`)
+    return "UTC"
+  }
+}
+
+function getDayFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = dayFormatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+    })
+    dayFormatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+/**
+ * Returns a sequential day number for the calendar day containing the instant.
+ * Consecutive calendar days always differ by exactly 1, regardless of DST.
+ */
+export function dayNumber(date: Date, timeZone: string): number {
+  const parts = getDayFormatter(timeZone).formatToParts(date)
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parseInt(parts.find(p => p.type === type)!.value)
+
+  return Date.UTC(part("year"), part("month") - 1, part("day")) / MS_IN_DAY
+}
+
+/**
+ * Parses LeetCode's submissionCalendar, which arrives as a JSON string or an already-parsed object
+ */
+export function parseSubmissionCalendar(raw: unknown): SubmissionCalendar {
+  if (!raw) return {}
+
+  const value = typeof raw === "string" ? JSON.parse(raw) : raw
+  if (typeof value !== "object" || Array.isArray(value)) return {}
+
+  const calendar: SubmissionCalendar = {}
+  for (const [timestamp, count] of Object.entries(value as Record<string, unknown>)) {
+    if (typeof count === "number" && !isNaN(parseInt(timestamp))) {
+      calendar[timestamp] = count
+    }
+  }
+  return calendar
+}
+
+/**
+ * Sums submission counts per calendar day in the given timezone
+ */
+export function bucketByDay(calendar: SubmissionCalendar, timeZone: string): Map<number, number> {
+  const days = new Map<number, number>()
+
+  for (const [timestamp, count] of Object.entries(calendar)) {
+    if (count <= 0) continue
+
+    const day = dayNumber(new Date(parseInt(timestamp) * 1000), timeZone)
+    days.set(day, (days.get(day) || 0) + count)
+  }
+
+  return days
+}
+
+/**
+ * Computes current, max and longest-ever streaks from a submission calendar
+ */
+export function calculateStreaks(
+  calendar: SubmissionCalendar,
+  { timeZone = getStreakTimeZone(), now = new Date(), previousLongest = 0 }: StreakOptions = {}
+): StreakStats {
+  const activeDays = [...bucketByDay(calendar, timeZone).keys()].sort((a, b) => a - b)
+
+  let max = 0
+  let run = 0
+  for (let i = 0; i < activeDays.length; i++) {
+    run = i > 0 && activeDays[i] === activeDays[i - 1] + 1 ? run + 1 : 1
+    max = Math.max(max, run)
+  }
+
+  // The last run is only current if it reaches today or yesterday
+  const today = dayNumber(now, timeZone)
+  const lastDay = activeDays[activeDays.length - 1]
+  const current = lastDay !== undefined && lastDay >= today - 1 ? run : 0
+
+  return {
+    current,
+    max,
+    longest: Math.max(max, previousLongest),
+  }
+}
@@ -0,0 +1,96 @@
+import { recordChallengeSolves } from '@/lib/challenges'
+import { recordDailySolves } from '@/lib/daily'
+import { leetcodeLimiter } from '@/lib/fetch-queue'
+import leetcode from '@/lib/leetcode'
+import { prisma } from '@/lib/prisma'
+import { resolveProblems } from '@/lib/problems'
+
+// LeetCode only exposes the last 20 submissions to anonymous clients
+const RECENT_SUBMISSION_LIMIT = 20
+
+export interface AcceptedSubmission {
+  slug: string;
+  timestamp: Date;
+}
+
+/**
+ * Passes the accepted submissions on to challenges and the daily question.
+ * Each is independent, so one failing doesn't stop the other.
+ */
+async function recordChallengeAndDailySolves(username: string, accepted: AcceptedSubmission[]): Promise<void> {
+  try {
+    await recordChallengeSolves(username, accepted)
+  } catch (error) {
+    console.error(`Failed to record challenge solves for ${username}:`, error)
+  }
+
+  try {
+    await recordDailySolves(username, accepted)
+  } catch (error) {
+    console.error(`Failed to record daily solves for ${username}:`, error)
+  }
+}
+
+/**
+ * Stores a user's recent accepted submissions, one row per solved problem.
+ * Only the first accepted submission of a problem is kept.
+ * Solves that count towards a challenge or the daily question are recorded as well.
+ * Returns the number of newly recorded problems.
+ */
+export async function ingestRecentSubmissions(username: string): Promise<number> {
+  await leetcodeLimiter.take()
+  const recent = await leetcode.recentSubmissions(username, RECENT_SUBMISSION_LIMIT)
+
+  // Keep the earliest accepted submission per problem
+  const firstAccepted = new Map<string, { title: string, lang: string, timestamp: number }>()
+  for (const submission of recent) {
+    if (submission.statusDisplay !== 'Accepted') continue
+
+    const timestamp = parseInt(submission.timestamp)
+    const existing = firstAccepted.get(submission.titleSlug)
+    if (!existing || timestamp < existing.timestamp) {
+      firstAccepted.set(submission.titleSlug, {
+        title: submission.title,
+        lang: submission.lang,
+        timestamp,
+      })
+    }
+  }
+
+  if (firstAccepted.size === 0) return 0
+
+  const problems = await resolveProblems([...firstAccepted.keys()])
+
+  const rows = [...firstAccepted.entries()]
+    .filter(([slug]) => problems.has(slug))
+    .map(([slug, submission]) => {
+      const problem = problems.get(slug)!
+      return {
+        userId: username,
+        problemSlug: slug,
+        title: submission.title,
+        lang: submission.lang,
+        timestamp: new Date(submission.timestamp * 1000),
+        difficulty: problem.difficulty,
+        problemId: problem.problemId,
+        accepted: true,
+      }
+    })
+
+  const { count } = await prisma.leetCodeSubmission.createMany({
+    data: rows,
+    skipDuplicates: true,
+  })
+
+  await recordChallengeAndDailySolves(
+    username,
+    recent
+      .filter(submission => submission.statusDisplay === 'Accepted')
+      .map(submission => ({
+        slug: submission.titleSlug,
+        timestamp: new Date(parseInt(submission.timestamp) * 1000),
+      }))
+  )
+
+  return count
+}
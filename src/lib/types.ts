@@ -0,0 +1,149 @@
+// Shapes shared between the API routes and the dashboard
+
+export type TimeRange = "week" | "month" | "year" | "all";
+
+// Metrics the dashboard tabs rank by
+export type RankingMetric = "problems" | "points" | "submissions" | "streaks";
+
+/**
+ * Places gained (positive) or lost since the previous equivalent period,
+ * or "new" for members who were not ranked back then
+ */
+export type RankMovement = number | "new";
+
+export interface ProblemsByDifficulty {
+  easy: number;
+  medium: number;
+  hard: number;
+}
+
+/**
+ * Progress made within a time range, computed from daily snapshots
+ */
+export interface PeriodStats {
+  totalSolved: number;
+  problemsByDifficulty: ProblemsByDifficulty;
+  submissions: number;
+  points?: number; // under the active scoring formula
+}
+
+/**
+ * A member's LeetCode contest rating, with the rating after each contest they attended
+ */
+export interface ContestStats {
+  rating: number;
+  globalRanking: number;
+  topPercentage: number;
+  attendedContests: number;
+  badge: string | null;
+  ratingHistory: { date: string; rating: number }[]; // oldest first
+}
+
+/**
+ * A milestone a user has reached; see ACHIEVEMENTS in lib/achievements
+ */
+export interface UnlockedAchievement {
+  achievementId: string;
+  unlockedAt: string;
+}
+
+export interface UserData {
+  id: string;
+  name: string;
+  avatar: string;
+  totalSolved: number;
+  problemsByDifficulty: ProblemsByDifficulty;
+  submissions: number; // accepted submissions
+  totalSubmissions: number; // every submission, accepted or not
+  points?: number; // under the active scoring formula, computed by the API
+  acceptedSubmissions: number[]; // Timestamps of accepted submissions
+  submissionCalendar: Record<string, number>; // Submissions per day, keyed by UTC midnight in unix seconds
+  streak?: {
+    current: number;
+    max: number;
+    longest?: number;
+  };
+  periods?: Record<Exclude<TimeRange, "all">, PeriodStats>;
+  contest?: ContestStats; // missing for members who never entered a rated contest
+  achievements?: UnlockedAchievement[]; // oldest first
+  rankMovement?: Record<TimeRange, Record<RankingMetric, RankMovement>>;
+  unreachable?: boolean; // repeated refresh failures; the numbers shown may be old
+}
+
+/**
+ * A member as /api/leetcode sends them: all-time numbers plus server-computed period
+ * stats, without the calendar, which the dashboard loads per member when it shows one
+ */
+export type LeaderboardUser = Omit<UserData, "acceptedSubmissions" | "submissionCalendar">;
+
+export interface ErrorData {
+  username: string;
+  error: string;
+}
+
+/**
+ * A member whose recent refreshes have all failed
+ */
+export interface UnreachableUser {
+  username: string;
+  consecutiveFailures: number;
+  lastError: string | null;
+  lastFailureAt: string | null;
+}
+
+/**
+ * How tracked members placed in one contest, best first
+ */
+export interface ContestStanding {
+  title: string;
+  startTime: string;
+  results: {
+    userId: string;
+    name: string;
+    ranking: number;
+    rating: number;
+    problemsSolved: number;
+    totalProblems: number;
+    finishTimeSeconds: number;
+  }[];
+}
+
+/**
+ * One member's progress in a challenge
+ */
+export interface ChallengeMemberProgress {
+  userId: string;
+  name: string;
+  solved: { slug: string; solvedAt: string }[];
+  finishedAt: string | null; // when the last problem was solved, if all were
+}
+
+/**
+ * A challenge with every active member's progress, finishers first in finishing order
+ */
+export interface ChallengeStanding {
+  id: number;
+  title: string;
+  startsAt: string;
+  endsAt: string;
+  problems: { slug: string; title: string; difficulty: string | null }[];
+  members: ChallengeMemberProgress[];
+}
+
+/**
+ * Today's daily question and how the team is doing on it
+ */
+export interface DailyBoard {
+  question: {
+    date: string; // YYYY-MM-DD, UTC
+    slug: string;
+    title: string;
+    difficulty: string;
+  };
+  members: {
+    userId: string;
+    name: string;
+    solvedAt: string | null; // today's accepted submission, if any
+    streak: { current: number; best: number }; // consecutive dailies solved
+  }[];
+}
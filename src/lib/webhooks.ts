@@ -0,0 +1,214 @@
+import { WebhookDelivery, WebhookEndpoint } from '@prisma/client'
+import {
+  NOTIFICATION_EVENTS,
+  NotificationEvent,
+  NotificationEventType,
+  WEBHOOK_FORMATS,
+  WebhookFormat,
+} from '@/lib/notifications'
+import { prisma } from '@/lib/prisma'
+
+export const WEBHOOK_MAX_ATTEMPTS = 3
+const WEBHOOK_TIMEOUT_MS = 5 * 1000
+const WEBHOOK_RETRY_DELAY_MS = 1000
+
+// Discord rejects messages over 2000 characters; Slack is more lenient but long posts are noise
+const MAX_MESSAGE_LENGTH = 1900
+
+const SENDER_NAME = 'LeetCode Leaderboard'
+
+// Deliveries shown with each endpoint in the admin API
+export const RECENT_DELIVERY_LIMIT = 10
+
+export interface WebhookFields {
+  name?: string;
+  url?: string;
+  format?: WebhookFormat;
+  events?: NotificationEventType[];
+  active?: boolean;
+}
+
+export interface WebhookSendResult {
+  success: boolean;
+  httpStatus: number | null;
+  attempts: number;
+  error: string | null;
+  durationMs: number;
+}
+
+/**
+ * Validates the editable fields of an endpoint. With `partial`, missing fields are left out
+ * instead of rejected. Returns an error message for the first invalid field.
+ */
+export function parseWebhookFields(
+  body: Record<string, unknown>,
+  { partial }: { partial: boolean }
+): { fields: WebhookFields } | { error: string } {
+  const fields: WebhookFields = {}
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      return { error: 'name must be a non-empty string' }
+    }
+    fields.name = body.name.trim()
+  }
+
+  if (body.url !== undefined || !partial) {
+    let url: URL | null = null
+    try {
+      url = typeof body.url === 'string' ? new URL(body.url.trim()) : null
+    } catch {
+      // Reported as invalid below
+    }
+    if (!url || (url.protocol !== 'http:' && url.protocol !== 'https:')) {
+      return { error: 'url must be an http or https URL' }
+    }
+    fields.url = url.toString()
+  }
+
+  if (body.format !== undefined) {
+    if (!WEBHOOK_FORMATS.includes(body.format as WebhookFormat)) {
+      return { error: `format must be one of ${WEBHOOK_FORMATS.join(', ')}` }
+    }
+    fields.format = body.format as WebhookFormat
+  }
+
+  if (body.events !== undefined) {
+    if (
+      !Array.isArray(body.events) ||
+      !body.events.every(event => NOTIFICATION_EVENTS.includes(event as NotificationEventType))
+    ) {
+      return { error: `events must be a list of ${NOTIFICATION_EVENTS.join(', ')}` }
+    }
+    fields.events = [...new Set(body.events as NotificationEventType[])]
+  }
+
+  if (body.active !== undefined) {
+    if (typeof body.active !== 'boolean') {
+      return { error: 'active must be a boolean' }
+    }
+    fields.active = body.active
+  }
+
+  return { fields }
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * Joins event lines into one message, cutting it short with a count of what was left out
+ */
+function messageText(events: NotificationEvent[]): string {
+  let text = ''
+  for (const [index, event] of events.entries()) {
+    const line = `• ${event.text}`
+    const remaining = events.length - index
+    if (text.length + line.length + 30 > MAX_MESSAGE_LENGTH && remaining > 1) {
+      return `${text}…and ${remaining} more`
+    }
+    text += `${line}\n`
+  }
+  return text.trimEnd()
+}
+
+/**
+ * The request body for an endpoint: Slack's `text`, Discord's `content`, or the raw events
+ */
+export function buildPayload(format: WebhookFormat, events: NotificationEvent[]): Record<string, unknown> {
+  switch (format) {
+    case 'slack':
+      return { text: messageText(events), username: SENDER_NAME }
+    case 'discord':
+      return { content: messageText(events), username: SENDER_NAME }
+    case 'json':
+      return { source: 'leetcode-leaderboard', sentAt: new Date().toISOString(), events }
+  }
+}
+
+/**
+ * POSTs JSON to a URL, retrying network errors, timeouts, 429s and 5xx responses
+ */
+export async function sendWebhook(url: string, payload: unknown): Promise<WebhookSendResult> {
+  const startedAt = Date.now()
+  let httpStatus: number | null = null
+  let error: string | null = null
+
+  for (let attempt = 1; attempt <= WEBHOOK_MAX_ATTEMPTS; attempt++) {
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      })
+      httpStatus = response.status
+      if (response.ok) {
+        return { success: true, httpStatus, attempts: attempt, error: null, durationMs: Date.now() - startedAt }
+      }
+
+      error = `HTTP ${response.status}: ${(await response.text()).slice(0, 200)}`
+      if (response.status !== 429 && response.status < 500) {
+        return { success: false, httpStatus, attempts: attempt, error, durationMs: Date.now() - startedAt }
+      }
+    } catch (err) {
+      httpStatus = null
+      error = err instanceof Error ? err.message : 'Unknown error'
+    }
+
+    if (attempt < WEBHOOK_MAX_ATTEMPTS) await sleep(WEBHOOK_RETRY_DELAY_MS * attempt)
+  }
+
+  return { success: false, httpStatus, attempts: WEBHOOK_MAX_ATTEMPTS, error, durationMs: Date.now() - startedAt }
+}
+
+/**
+ * Sends events to one endpoint and logs the delivery
+ */
+export async function deliverToEndpoint(
+  endpoint: WebhookEndpoint,
+  events: NotificationEvent[]
+): Promise<WebhookDelivery> {
+  const payload = buildPayload(endpoint.format as WebhookFormat, events)
+  const result = await sendWebhook(endpoint.url, payload)
+
+  if (!result.success) {
+    console.error(`Webhook ${endpoint.name} failed after ${result.attempts} attempts:`, result.error)
+  }
+
+  return prisma.webhookDelivery.create({
+    data: {
+      endpointId: endpoint.id,
+      events: [...new Set(events.map(event => event.type))],
+      payload: JSON.parse(JSON.stringify(payload)),
+      success: result.success,
+      httpStatus: result.httpStatus,
+      attempts: result.attempts,
+      error: result.error,
+      durationMs: result.durationMs,
+    },
+  })
+}
+
+/**
+ * Sends each active endpoint the events it subscribes to, as one message per endpoint
+ */
+export async function deliverEvents(events: NotificationEvent[]): Promise<void> {
+  if (events.length === 0) return
+
+  const endpoints = await prisma.webhookEndpoint.findMany({ where: { active: true } })
+
+  await Promise.all(endpoints.map(async endpoint => {
+    const wanted = endpoint.events.length === 0
+      ? events
+      : events.filter(event => endpoint.events.includes(event.type))
+    if (wanted.length === 0) return
+
+    try {
+      await deliverToEndpoint(endpoint, wanted)
+    } catch (error) {
+      console.error(`Failed to deliver webhook ${endpoint.name}:`, error)
+    }
+  }))
+}